@@ -1,61 +1,216 @@
-// Hourly data fetcher service
-// This service fetches financial data every hour and stores it in the database
+// Scheduled data fetcher service
+// Runs the app's refresh jobs on their cron schedules. Jobs and their
+// schedules live in the app database (/api/admin/jobs); this service checks
+// which are due, calls /api/refresh with each job's steps and reports back.
+// Due jobs run side by side, each guarded against overlapping itself. A job
+// whose next run passed while the service was down runs once on start.
 
-const REFRESH_INTERVAL = 60 * 60 * 1000 // 1 hour in milliseconds
 const PORT = 3002
+const APP_URL = process.env.APP_URL || 'http://localhost:3000'
+// How often due jobs are checked; cron resolution is one minute
+const TICK_INTERVAL = 30 * 1000
 
-// Simple HTTP server for health checks
+interface Job {
+  name: string
+  description: string | null
+  cron: string
+  steps: string
+  enabled: boolean
+  lastRunAt: string | null
+  lastStatus: string | null
+  lastError: string | null
+  lastDurationMs: number | null
+  nextRunAt: string | null
+}
+
+let jobs: Job[] = []
+const running = new Set<string>()
+let lastFetchTime: string | null = null
+
+async function appRequest(path: string, init?: RequestInit) {
+  const response = await fetch(`${APP_URL}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  })
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || `${path} failed: ${response.status}`)
+  return data
+}
+
+async function loadJobs() {
+  const data = await appRequest('/api/admin/jobs')
+  jobs = data.jobs
+  return jobs
+}
+
+function replaceJob(job: Job) {
+  jobs = jobs.map(j => (j.name === job.name ? job : j))
+}
+
+// Run refresh steps in the app; all of them when none are given. The job
+// name labels the run in the app's refresh history.
+async function refresh(steps?: string, job?: string) {
+  const query = new URLSearchParams()
+  if (steps) query.set('steps', steps)
+  if (job) query.set('job', job)
+  const data = await appRequest(`/api/refresh?${query}`, { method: 'POST' })
+  lastFetchTime = new Date().toISOString()
+  return data.results
+}
+
+async function runJob(job: Job, trigger: 'schedule' | 'manual') {
+  if (running.has(job.name)) {
+    return { name: job.name, status: 'running' }
+  }
+
+  running.add(job.name)
+  const startedAt = new Date()
+  console.log(`[${startedAt.toISOString()}] Running job ${job.name} (${trigger}): ${job.steps}`)
+
+  let status: 'success' | 'failed' = 'success'
+  let error: string | null = null
+  let results = null
+  try {
+    results = await refresh(job.steps, job.name)
+  } catch (err) {
+    status = 'failed'
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  const durationMs = Date.now() - startedAt.getTime()
+  try {
+    const data = await appRequest(`/api/admin/jobs/${encodeURIComponent(job.name)}/runs`, {
+      method: 'POST',
+      body: JSON.stringify({ startedAt: startedAt.toISOString(), status, error, durationMs }),
+    })
+    replaceJob(data.job)
+  } catch (err) {
+    console.error(`[${new Date().toISOString()}] Could not record run of ${job.name}:`, err)
+  } finally {
+    running.delete(job.name)
+  }
+
+  if (status === 'failed') {
+    console.error(`[${new Date().toISOString()}] Job ${job.name} failed after ${durationMs}ms:`, error)
+  } else {
+    console.log(`[${new Date().toISOString()}] Job ${job.name} completed in ${durationMs}ms:`, results)
+  }
+  return { name: job.name, status, error, durationMs, results }
+}
+
+let ticking = false
+
+// Start every enabled job that is due. Jobs run independently, so a slow one
+// does not hold up the rest; a job still running from an earlier tick is
+// skipped rather than started a second time.
+async function tick() {
+  if (ticking) return
+  ticking = true
+  try {
+    const now = Date.now()
+    const due = (await loadJobs()).filter(job =>
+      job.enabled && job.nextRunAt && new Date(job.nextRunAt).getTime() <= now
+    )
+    for (const job of due) {
+      if (running.has(job.name)) {
+        console.log(`[${new Date().toISOString()}] Job ${job.name} is still running; skipping this tick`)
+        continue
+      }
+      const lateBy = now - new Date(job.nextRunAt!).getTime()
+      if (lateBy > TICK_INTERVAL * 2) {
+        console.log(`[${new Date().toISOString()}] Catching up missed run of ${job.name} (due ${job.nextRunAt})`)
+      }
+      runJob(job, 'schedule').catch(error => {
+        console.error(`[${new Date().toISOString()}] Job ${job.name} crashed:`, error)
+      })
+    }
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Scheduler tick failed:`, error)
+  } finally {
+    ticking = false
+  }
+}
+
+async function findJob(name: string) {
+  return (await loadJobs()).find(j => j.name === name) || null
+}
+
+// HTTP API for health checks and job control
 const server = Bun.serve({
   port: PORT,
   async fetch(req) {
     const url = new URL(req.url)
-    
+
     if (url.pathname === '/health') {
-      return Response.json({ 
-        status: 'ok', 
+      const upcoming = jobs
+        .filter(j => j.enabled && j.nextRunAt)
+        .map(j => j.nextRunAt!)
+        .sort()
+      // Upstream circuit breakers live in the app; null when it is unreachable
+      const app = await fetch(`${APP_URL}/api/health`, { signal: AbortSignal.timeout(2000) })
+        .then(res => (res.ok ? res.json() : null))
+        .catch(() => null)
+      return Response.json({
+        status: 'ok',
         service: 'data-fetcher',
         lastFetch: lastFetchTime,
-        nextFetch: nextFetchTime,
+        nextFetch: upcoming[0] || null,
+        running: Array.from(running),
+        jobs: jobs.length,
+        app: app?.status ?? 'unreachable',
+        upstreams: app?.upstreams ?? null,
       })
     }
-    
+
     if (url.pathname === '/trigger') {
-      // Manual trigger for testing
-      await fetchData()
+      // Manual full refresh for testing
+      try {
+        await refresh()
+      } catch (error) {
+        console.error(`[${new Date().toISOString()}] Data fetch failed:`, error)
+      }
       return Response.json({ status: 'triggered', timestamp: new Date().toISOString() })
     }
-    
-    return Response.json({ error: 'Not found' }, { status: 404 })
-  },
-})
 
-let lastFetchTime: string | null = null
-let nextFetchTime: string | null = null
+    try {
+      if (url.pathname === '/jobs' && req.method === 'GET') {
+        return Response.json({ jobs: await loadJobs(), running: Array.from(running) })
+      }
 
-async function fetchData() {
-  console.log(`[${new Date().toISOString()}] Starting data fetch...`)
-  
-  try {
-    // Call the refresh API
-    const response = await fetch(`http://localhost:3000/api/refresh`)
-    const data = await response.json()
-    
-    lastFetchTime = new Date().toISOString()
-    nextFetchTime = new Date(Date.now() + REFRESH_INTERVAL).toISOString()
-    
-    console.log(`[${new Date().toISOString()}] Data fetch completed:`, data.results)
-  } catch (error) {
-    console.error(`[${new Date().toISOString()}] Data fetch failed:`, error)
-  }
-}
+      // /jobs/:name/run, /jobs/:name/enable, /jobs/:name/disable
+      const match = url.pathname.match(/^\/jobs\/([^/]+)\/(run|enable|disable)$/)
+      if (match) {
+        const job = await findJob(decodeURIComponent(match[1]))
+        if (!job) {
+          return Response.json({ error: 'Job not found' }, { status: 404 })
+        }
 
-// Initial fetch on startup
-setTimeout(() => {
-  fetchData()
-}, 5000) // Wait 5 seconds for the main app to start
+        if (match[2] === 'run') {
+          return Response.json(await runJob(job, 'manual'))
+        }
+
+        if (req.method !== 'POST') {
+          return Response.json({ error: 'Method not allowed' }, { status: 405 })
+        }
+        const data = await appRequest(`/api/admin/jobs/${encodeURIComponent(job.name)}`, {
+          method: 'PATCH',
+          body: JSON.stringify({ enabled: match[2] === 'enable' }),
+        })
+        replaceJob(data.job)
+        return Response.json({ job: data.job })
+      }
+    } catch (error) {
+      console.error(`[${new Date().toISOString()}] Request ${url.pathname} failed:`, error)
+      return Response.json({ error: 'App request failed' }, { status: 502 })
+    }
+
+    return Response.json({ error: 'Not found' }, { status: 404 })
+  },
+})
 
-// Schedule hourly fetches
-setInterval(fetchData, REFRESH_INTERVAL)
+// First check after the main app has had time to start; catches up missed runs
+setTimeout(tick, 5000)
+setInterval(tick, TICK_INTERVAL)
 
-console.log(`Data fetcher service started on port ${PORT}`)
-console.log(`Refresh interval: ${REFRESH_INTERVAL / 1000 / 60} minutes`)
+console.log(`Data fetcher service started on port ${server.port}`)
+console.log(`Checking jobs every ${TICK_INTERVAL / 1000} seconds`)
@@ -0,0 +1,159 @@
+// Real-time price stream service
+// Polls the app for quotes of every symbol someone is subscribed to and
+// publishes changed prices as ticks into per-symbol socket.io rooms.
+//
+// Client events:
+//   subscribe   { symbols: string[], since?: Record<symbol, seq> }
+//   unsubscribe { symbols: string[] }
+// Server events:
+//   tick        Tick
+//   backfill    { symbol, ticks: Tick[] } - ticks after `since`, or the latest one
+
+import { createServer } from 'http'
+import { Server } from 'socket.io'
+
+const PORT = 3003
+const APP_URL = process.env.APP_URL || 'http://localhost:3000'
+const POLL_INTERVAL = Number(process.env.PRICE_STREAM_INTERVAL_MS) || 15 * 1000
+// Ticks kept per symbol for clients catching up after a reconnect
+const HISTORY_SIZE = 50
+
+interface Tick {
+  symbol: string
+  seq: number
+  price: number
+  previousPrice: number | null
+  change24h: number | null
+  high24h: number | null
+  low24h: number | null
+  volume: number | null
+  timestamp: string
+}
+
+const history = new Map<string, Tick[]>()
+
+const room = (symbol: string) => `symbol:${symbol}`
+
+const httpServer = createServer()
+const io = new Server(httpServer, {
+  // DO NOT change the path, it is used by Caddy to forward the request to the correct port
+  path: '/',
+  cors: {
+    origin: "*",
+    methods: ["GET", "POST"]
+  },
+  pingTimeout: 60000,
+  pingInterval: 25000,
+})
+
+function normalizeSymbols(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return value.filter((s): s is string => typeof s === 'string' && s.length > 0).map(s => s.toUpperCase()).slice(0, 50)
+}
+
+// Symbols with at least one subscriber
+function subscribedSymbols(): string[] {
+  return Array.from(io.sockets.adapter.rooms.keys())
+    .filter(name => name.startsWith('symbol:'))
+    .map(name => name.slice('symbol:'.length))
+}
+
+function recordTick(quote: Omit<Tick, 'seq' | 'previousPrice' | 'timestamp'>, timestamp: string): Tick | null {
+  const ticks = history.get(quote.symbol) || []
+  const last = ticks[ticks.length - 1]
+  if (last && last.price === quote.price) return null
+
+  const tick: Tick = {
+    ...quote,
+    seq: (last?.seq ?? 0) + 1,
+    previousPrice: last?.price ?? null,
+    timestamp,
+  }
+  ticks.push(tick)
+  if (ticks.length > HISTORY_SIZE) ticks.shift()
+  history.set(quote.symbol, ticks)
+  return tick
+}
+
+async function poll() {
+  const symbols = subscribedSymbols()
+  if (symbols.length === 0) return
+
+  try {
+    const response = await fetch(`${APP_URL}/api/market/quotes?symbols=${encodeURIComponent(symbols.join(','))}`)
+    if (!response.ok) throw new Error(`Quotes request failed: ${response.status}`)
+    const data = await response.json()
+
+    for (const price of data.prices || []) {
+      const tick = recordTick({
+        symbol: price.symbol,
+        price: price.price,
+        change24h: price.change24h ?? null,
+        high24h: price.high24h ?? null,
+        low24h: price.low24h ?? null,
+        volume: price.volume ?? null,
+      }, data.timestamp)
+      if (tick) io.to(room(tick.symbol)).emit('tick', tick)
+    }
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Poll failed:`, error)
+  }
+}
+
+io.on('connection', (socket) => {
+  console.log(`Client connected: ${socket.id}`)
+
+  socket.on('subscribe', (data: { symbols?: string[]; since?: Record<string, number> }) => {
+    const symbols = normalizeSymbols(data?.symbols)
+    const since = data?.since || {}
+
+    for (const symbol of symbols) {
+      socket.join(room(symbol))
+
+      // Catch the client up: missed ticks if we still have them, else the latest
+      const ticks = history.get(symbol) || []
+      if (ticks.length === 0) continue
+      const lastSeen = since[symbol]
+      const latest = ticks[ticks.length - 1]
+      // A client ahead of us means this service restarted and numbering began again
+      const canReplay = typeof lastSeen === 'number' && lastSeen <= latest.seq && ticks[0].seq <= lastSeen + 1
+      const missed = canReplay ? ticks.filter(t => t.seq > lastSeen) : [latest]
+      if (missed.length > 0) socket.emit('backfill', { symbol, ticks: missed })
+    }
+
+    // Quote new symbols straight away rather than waiting for the next poll
+    if (symbols.some(s => !history.has(s))) poll()
+  })
+
+  socket.on('unsubscribe', (data: { symbols?: string[] }) => {
+    for (const symbol of normalizeSymbols(data?.symbols)) {
+      socket.leave(room(symbol))
+    }
+  })
+
+  socket.on('disconnect', () => {
+    console.log(`Client disconnected: ${socket.id}`)
+  })
+
+  socket.on('error', (error) => {
+    console.error(`Socket error (${socket.id}):`, error)
+  })
+})
+
+setInterval(poll, POLL_INTERVAL)
+
+httpServer.listen(PORT, () => {
+  console.log(`Price stream service running on port ${PORT}`)
+  console.log(`Poll interval: ${POLL_INTERVAL / 1000} seconds`)
+})
+
+// Graceful shutdown
+process.on('SIGTERM', () => {
+  console.log('Received SIGTERM signal, shutting down server...')
+  httpServer.close(() => process.exit(0))
+})
+
+process.on('SIGINT', () => {
+  console.log('Received SIGINT signal, shutting down server...')
+  httpServer.close(() => process.exit(0))
+})
@@ -0,0 +1,284 @@
+'use client'
+
+import { Fragment, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AlertCircle, ArrowLeft, ChevronDown, ChevronRight, History, RefreshCw } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatDate, timeAgo } from '@/lib/format'
+
+interface RefreshStep {
+  id: string
+  name: string
+  status: string
+  inserted: number
+  updated: number
+  skipped: number
+  upstreamMs: number | null
+  durationMs: number
+  error: string | null
+  startedAt: string
+}
+
+interface RefreshRun {
+  id: string
+  trigger: string
+  status: string
+  startedAt: string
+  finishedAt: string | null
+  durationMs: number | null
+  error: string | null
+  steps: RefreshStep[]
+}
+
+interface StepHealth {
+  name: string
+  lastSuccessAt: string | null
+  lastFailureAt: string | null
+  lastError: string | null
+}
+
+const STEP_NAMES = ['prices', 'fx', 'news', 'analysis', 'sentiment', 'history']
+const STATUSES = ['success', 'partial', 'failed', 'running']
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  success: 'secondary',
+  partial: 'outline',
+  failed: 'destructive',
+  running: 'default',
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '—'
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+// Refresh history: when each step last worked, and every run with its steps
+export default function RefreshHistoryPage() {
+  const [runs, setRuns] = useState<RefreshRun[]>([])
+  const [steps, setSteps] = useState<StepHealth[]>([])
+  const [step, setStep] = useState('all')
+  const [status, setStatus] = useState('all')
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [loadedKey, setLoadedKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [reloads, setReloads] = useState(0)
+
+  const requestKey = `${step}|${status}|${reloads}`
+
+  useEffect(() => {
+    const params = new URLSearchParams({ limit: '100' })
+    if (step !== 'all') params.set('step', step)
+    if (status !== 'all') params.set('status', status)
+
+    fetch(`/api/admin/refresh-runs?${params}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (data) {
+          setRuns(data.runs)
+          setSteps(data.steps)
+          setError(null)
+        } else {
+          setError('Failed to load refresh runs.')
+        }
+        setLoadedKey(requestKey)
+      })
+      .catch(err => {
+        console.error('Error fetching refresh runs:', err)
+        setError('Failed to load refresh runs. Please try again.')
+        setLoadedKey(requestKey)
+      })
+  }, [step, status, requestKey])
+
+  const loading = loadedKey !== requestKey
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 dark:from-slate-950 dark:via-slate-900 dark:to-slate-950">
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Dashboard
+              </Link>
+            </Button>
+            <h1 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Refresh History
+            </h1>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setReloads(n => n + 1)} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Reload
+          </Button>
+        </div>
+
+        {error && (
+          <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400" />
+            <span className="text-red-700 dark:text-red-300">{error}</span>
+          </div>
+        )}
+
+        <section className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {steps.map(s => {
+            const failing = s.lastFailureAt !== null && (s.lastSuccessAt === null || s.lastFailureAt > s.lastSuccessAt)
+            return (
+              <Card key={s.name} className={failing ? 'border-red-300 dark:border-red-800' : ''}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm capitalize">{s.name}</CardTitle>
+                  <CardDescription>
+                    {s.lastSuccessAt ? `Last success ${timeAgo(s.lastSuccessAt)}` : 'Never succeeded'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {failing ? (
+                    <p className="text-xs text-red-600 dark:text-red-400 line-clamp-3" title={s.lastError ?? undefined}>
+                      {s.lastError || 'Failed'}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-slate-500">
+                      {s.lastFailureAt ? `Last failure ${timeAgo(s.lastFailureAt)}` : 'No failures recorded'}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )
+          })}
+        </section>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div>
+              <CardTitle>Runs</CardTitle>
+              <CardDescription>
+                Each call to /api/refresh, newest first. With a step selected, the status filter applies to that step.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={step} onValueChange={setStep}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All steps</SelectItem>
+                  {STEP_NAMES.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any status</SelectItem>
+                  {STATUSES.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading && runs.length === 0 ? (
+              <Skeleton className="h-64 w-full" />
+            ) : runs.length === 0 ? (
+              <p className="text-sm text-slate-500 py-8 text-center">No refresh runs recorded</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Started</TableHead>
+                    <TableHead>Trigger</TableHead>
+                    <TableHead>Steps</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Duration</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map(run => (
+                    <Fragment key={run.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpanded(expanded === run.id ? null : run.id)}
+                      >
+                        <TableCell>
+                          {expanded === run.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </TableCell>
+                        <TableCell>{formatDate(run.startedAt)}</TableCell>
+                        <TableCell>{run.trigger}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {run.steps.map(s => (
+                              <Badge key={s.id} variant={STATUS_VARIANTS[s.status] ?? 'outline'}>{s.name}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[run.status] ?? 'outline'}>{run.status}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{formatDuration(run.durationMs)}</TableCell>
+                      </TableRow>
+                      {expanded === run.id && (
+                        <TableRow>
+                          <TableCell />
+                          <TableCell colSpan={5}>
+                            {run.error && (
+                              <p className="mb-2 text-sm text-red-600 dark:text-red-400">{run.error}</p>
+                            )}
+                            <Table>
+                              <TableHeader>
+                                <TableRow>
+                                  <TableHead>Step</TableHead>
+                                  <TableHead className="text-right">Inserted</TableHead>
+                                  <TableHead className="text-right">Updated</TableHead>
+                                  <TableHead className="text-right">Skipped</TableHead>
+                                  <TableHead className="text-right">Upstream</TableHead>
+                                  <TableHead className="text-right">Total</TableHead>
+                                  <TableHead>Error</TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {run.steps.map(s => (
+                                  <TableRow key={s.id}>
+                                    <TableCell className="font-medium">{s.name}</TableCell>
+                                    <TableCell className="text-right">{s.inserted}</TableCell>
+                                    <TableCell className="text-right">{s.updated}</TableCell>
+                                    <TableCell className="text-right">{s.skipped}</TableCell>
+                                    <TableCell className="text-right">{formatDuration(s.upstreamMs)}</TableCell>
+                                    <TableCell className="text-right">{formatDuration(s.durationMs)}</TableCell>
+                                    <TableCell className="max-w-md whitespace-normal text-red-600 dark:text-red-400">
+                                      {s.error}
+                                    </TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { getInstrument } from '@/lib/instruments'
+import { EXCHANGES } from '@/lib/market-calendar'
+
+const updateInstrumentSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  quoteCurrency: z.string().trim().length(3).transform(s => s.toUpperCase()).optional(),
+  exchange: z.enum(EXCHANGES).nullable().optional(),
+  decimals: z.number().int().min(0).max(8).optional(),
+  enabled: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+})
+
+type RouteContext = { params: Promise<{ symbol: string }> }
+
+// Update an instrument, e.g. { "enabled": false } to stop tracking it
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { symbol } = await params
+    const instrument = await getInstrument(decodeURIComponent(symbol))
+    if (!instrument) {
+      return NextResponse.json({ error: 'Instrument not found' }, { status: 404 })
+    }
+
+    const parsed = updateInstrumentSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid instrument update', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const updated = await db.instrument.update({
+      where: { id: instrument.id },
+      data: parsed.data,
+    })
+    return NextResponse.json({ instrument: updated })
+  } catch (error) {
+    console.error('Error updating instrument:', error)
+    return NextResponse.json(
+      { error: 'Failed to update instrument' },
+      { status: 500 }
+    )
+  }
+}
+
+// Disable an instrument; its stored prices and history are kept
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { symbol } = await params
+    const instrument = await getInstrument(decodeURIComponent(symbol))
+    if (!instrument) {
+      return NextResponse.json({ error: 'Instrument not found' }, { status: 404 })
+    }
+
+    const updated = await db.instrument.update({
+      where: { id: instrument.id },
+      data: { enabled: false },
+    })
+    return NextResponse.json({ instrument: updated })
+  } catch (error) {
+    console.error('Error disabling instrument:', error)
+    return NextResponse.json(
+      { error: 'Failed to disable instrument' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { getInstruments, ASSET_CLASSES } from '@/lib/instruments'
+import { EXCHANGES } from '@/lib/market-calendar'
+
+const createInstrumentSchema = z.object({
+  symbol: z.string().trim().min(1).max(20).transform(s => s.toUpperCase()),
+  providerTicker: z.string().trim().min(1).max(30),
+  name: z.string().trim().min(1).max(100),
+  assetClass: z.enum(ASSET_CLASSES as [string, ...string[]]),
+  quoteCurrency: z.string().trim().length(3).transform(s => s.toUpperCase()).optional(),
+  exchange: z.enum(EXCHANGES).optional(),
+  decimals: z.number().int().min(0).max(8).optional(),
+  enabled: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+})
+
+// List every instrument, including disabled ones
+export async function GET() {
+  try {
+    const instruments = await getInstruments({ includeDisabled: true })
+    return NextResponse.json({ instruments })
+  } catch (error) {
+    console.error('Error listing instruments:', error)
+    return NextResponse.json(
+      { error: 'Failed to list instruments' },
+      { status: 500 }
+    )
+  }
+}
+
+// Register a new instrument
+export async function POST(request: Request) {
+  try {
+    const parsed = createInstrumentSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid instrument', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const existing = await db.instrument.findFirst({
+      where: { OR: [{ symbol: parsed.data.symbol }, { providerTicker: parsed.data.providerTicker }] },
+    })
+    if (existing) {
+      return NextResponse.json(
+        { error: `Instrument already registered as ${existing.symbol}` },
+        { status: 409 }
+      )
+    }
+
+    const instrument = await db.instrument.create({ data: parsed.data })
+    return NextResponse.json({ instrument }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating instrument:', error)
+    return NextResponse.json(
+      { error: 'Failed to create instrument' },
+      { status: 500 }
+    )
+  }
+}
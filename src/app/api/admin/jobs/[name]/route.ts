@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { isValidCron } from '@/lib/cron'
+import { getJob, updateJob } from '@/lib/jobs'
+
+const updateJobSchema = z.object({
+  cron: z.string().trim().refine(isValidCron, 'Invalid cron expression').optional(),
+  enabled: z.boolean().optional(),
+})
+
+type RouteContext = { params: Promise<{ name: string }> }
+
+// Change a job's schedule or toggle it, e.g. { "cron": "*/5 * * * *" }
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { name } = await params
+    const job = await getJob(name)
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    const parsed = updateJobSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid job update', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const updated = await updateJob(job, parsed.data)
+    return NextResponse.json({ job: updated })
+  } catch (error) {
+    console.error('Error updating job:', error)
+    return NextResponse.json(
+      { error: 'Failed to update job' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getJob, recordJobRun } from '@/lib/jobs'
+
+const jobRunSchema = z.object({
+  startedAt: z.coerce.date(),
+  status: z.enum(['success', 'failed']),
+  error: z.string().max(2000).nullish(),
+  durationMs: z.number().int().min(0),
+})
+
+type RouteContext = { params: Promise<{ name: string }> }
+
+// Record the outcome of a run; called by the data-fetcher scheduler
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { name } = await params
+    const job = await getJob(name)
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    const parsed = jobRunSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid job run', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const updated = await recordJobRun(job, parsed.data)
+    return NextResponse.json({ job: updated })
+  } catch (error) {
+    console.error('Error recording job run:', error)
+    return NextResponse.json(
+      { error: 'Failed to record job run' },
+      { status: 500 }
+    )
+  }
+}
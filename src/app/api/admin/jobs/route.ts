@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { getJobs } from '@/lib/jobs'
+
+// List scheduled refresh jobs with their last and next runs
+export async function GET() {
+  try {
+    const jobs = await getJobs()
+    return NextResponse.json({ jobs })
+  } catch (error) {
+    console.error('Error listing jobs:', error)
+    return NextResponse.json(
+      { error: 'Failed to list jobs' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { REFRESH_STEPS } from '@/lib/jobs'
+import { getRefreshRuns, getStepHealth } from '@/lib/refresh-runs'
+
+// Refresh history, newest first, with per-step counts, timings and errors.
+// ?step=news&status=failed finds runs where that step failed; ?trigger= a job
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = searchParams.get('limit') ? Number(searchParams.get('limit')) : 50
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 })
+    }
+
+    const [runs, steps] = await Promise.all([
+      getRefreshRuns({
+        step: searchParams.get('step') || undefined,
+        status: searchParams.get('status') || undefined,
+        trigger: searchParams.get('trigger') || undefined,
+        limit: Math.min(limit, 200),
+      }),
+      getStepHealth(REFRESH_STEPS),
+    ])
+
+    return NextResponse.json({
+      runs,
+      steps,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error listing refresh runs:', error)
+    return NextResponse.json(
+      { error: 'Failed to list refresh runs' },
+      { status: 500 }
+    )
+  }
+}
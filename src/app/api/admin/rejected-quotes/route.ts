@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { getRejectedQuotes } from '@/lib/quote-validation'
+
+// Quotes quarantined by validation, newest first; ?since=ISO&limit=
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const since = searchParams.get('since')
+    const limit = searchParams.get('limit') ? Number(searchParams.get('limit')) : 100
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 })
+    }
+
+    const sinceDate = since ? new Date(since) : undefined
+    if (sinceDate && isNaN(sinceDate.getTime())) {
+      return NextResponse.json({ error: 'Invalid since date' }, { status: 400 })
+    }
+
+    const rejected = await getRejectedQuotes({ since: sinceDate, limit: Math.min(limit, 500) })
+    return NextResponse.json({
+      rejected,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error listing rejected quotes:', error)
+    return NextResponse.json(
+      { error: 'Failed to list rejected quotes' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+
+const markReadSchema = z.object({
+  ids: z.array(z.string()).optional(),
+})
+
+// List triggered alerts, newest first; ?since=ISO for new ones, ?unread=1
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const since = searchParams.get('since') ? new Date(searchParams.get('since')!) : undefined
+    const unread = searchParams.get('unread') === '1'
+    const limit = searchParams.get('limit') ? Number(searchParams.get('limit')) : 50
+
+    if (since && isNaN(since.getTime())) {
+      return NextResponse.json({ error: 'Invalid since date' }, { status: 400 })
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 })
+    }
+
+    const events = await db.alertEvent.findMany({
+      where: {
+        ...(since ? { triggeredAt: { gt: since } } : {}),
+        ...(unread ? { read: false } : {}),
+      },
+      orderBy: { triggeredAt: 'desc' },
+      take: Math.min(limit, 200),
+    })
+    const unreadCount = await db.alertEvent.count({ where: { read: false } })
+
+    return NextResponse.json({
+      events,
+      unreadCount,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error listing alert events:', error)
+    return NextResponse.json(
+      { error: 'Failed to list alert events' },
+      { status: 500 }
+    )
+  }
+}
+
+// Mark events as read: { "ids": [...] }, or every event when ids is omitted
+export async function PATCH(request: Request) {
+  try {
+    const parsed = markReadSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { count } = await db.alertEvent.updateMany({
+      where: parsed.data.ids ? { id: { in: parsed.data.ids } } : { read: false },
+      data: { read: true },
+    })
+    return NextResponse.json({ updated: count })
+  } catch (error) {
+    console.error('Error marking alert events read:', error)
+    return NextResponse.json(
+      { error: 'Failed to update alert events' },
+      { status: 500 }
+    )
+  }
+}
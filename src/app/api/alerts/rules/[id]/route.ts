@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+
+const updateRuleSchema = z.object({
+  threshold: z.number().optional(),
+  windowMinutes: z.number().int().positive().optional(),
+  maPeriod: z.number().int().min(2).max(500).optional(),
+  cooldownMinutes: z.number().int().min(0).optional(),
+  active: z.boolean().optional(),
+  note: z.string().trim().max(200).optional(),
+})
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const existing = await db.alertRule.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 })
+    }
+
+    const parsed = updateRuleSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid alert rule update', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const rule = await db.alertRule.update({ where: { id }, data: parsed.data })
+    return NextResponse.json({ rule })
+  } catch (error) {
+    console.error('Error updating alert rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to update alert rule' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const existing = await db.alertRule.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 })
+    }
+
+    await db.alertRule.delete({ where: { id } })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting alert rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete alert rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { getInstrument } from '@/lib/instruments'
+import { ALERT_CONDITIONS } from '@/lib/alerts'
+
+const createRuleSchema = z.object({
+  symbol: z.string().trim().min(1).max(30),
+  condition: z.enum(ALERT_CONDITIONS),
+  threshold: z.number().optional(),
+  windowMinutes: z.number().int().positive().optional(),
+  maPeriod: z.number().int().min(2).max(500).optional(),
+  cooldownMinutes: z.number().int().min(0).optional(),
+  active: z.boolean().optional(),
+  note: z.string().trim().max(200).optional(),
+}).superRefine((rule, ctx) => {
+  if ((rule.condition === 'above' || rule.condition === 'below' || rule.condition === 'percent_change') && rule.threshold === undefined) {
+    ctx.addIssue({ code: 'custom', message: 'Threshold is required', path: ['threshold'] })
+  }
+  if (rule.condition === 'percent_change' && !rule.windowMinutes) {
+    ctx.addIssue({ code: 'custom', message: 'Window is required for percent_change', path: ['windowMinutes'] })
+  }
+  if (rule.condition.startsWith('crosses_') && !rule.maPeriod) {
+    ctx.addIssue({ code: 'custom', message: 'Moving average period is required', path: ['maPeriod'] })
+  }
+})
+
+export async function GET() {
+  try {
+    const rules = await db.alertRule.findMany({
+      orderBy: { createdAt: 'desc' },
+    })
+    return NextResponse.json({ rules })
+  } catch (error) {
+    console.error('Error listing alert rules:', error)
+    return NextResponse.json(
+      { error: 'Failed to list alert rules' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const parsed = createRuleSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid alert rule', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const instrument = await getInstrument(parsed.data.symbol.toUpperCase())
+    if (!instrument) {
+      return NextResponse.json(
+        { error: `Unknown instrument: ${parsed.data.symbol}` },
+        { status: 422 }
+      )
+    }
+
+    const rule = await db.alertRule.create({
+      data: { ...parsed.data, symbol: instrument.symbol },
+    })
+    return NextResponse.json({ rule }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating alert rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to create alert rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { getUpstreamStatuses } from '@/lib/http-client'
+import { getCacheStats } from '@/lib/cache'
+
+export const dynamic = 'force-dynamic'
+
+// Service health with the circuit breaker state of each upstream; degraded
+// while any breaker is open and requests are being served from cache
+export async function GET() {
+  const upstreams = getUpstreamStatuses()
+  const degraded = upstreams.some(u => u.state !== 'closed')
+  return NextResponse.json({
+    status: degraded ? 'degraded' : 'ok',
+    upstreams,
+    cache: getCacheStats(),
+    timestamp: new Date().toISOString(),
+  })
+}
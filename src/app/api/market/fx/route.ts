@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { getFxRates, refreshFxRates, toFxQuote } from '@/lib/fx-rates'
+import { FX_MATRIX_CURRENCIES, convert, crossRates, ratesPerUsd } from '@/lib/fx'
+
+// GET /api/market/fx - market rates as units per 1 USD, the cross-rate matrix
+// and market vs official (National Bank of Kazakhstan) tenge rates
+export async function GET() {
+  try {
+    let market = await getFxRates('market')
+    const official = await getFxRates('nbk')
+
+    // First request on a fresh database: fetch market rates before answering.
+    // Official rates are left to the fx refresh step, which fetches them once a day.
+    if (market.length === 0) {
+      try {
+        await refreshFxRates()
+        market = await getFxRates('market')
+      } catch (error) {
+        console.error('Error fetching FX rates:', error)
+      }
+    }
+
+    const marketQuotes = market.map(toFxQuote)
+    const officialQuotes = official.map(toFxQuote)
+    const marketRates = ratesPerUsd(marketQuotes)
+    const officialRates = ratesPerUsd(officialQuotes)
+    const updatedAt = market.length > 0
+      ? new Date(Math.min(...market.map(r => r.updatedAt.getTime()))).toISOString()
+      : null
+
+    // Tenge per unit of each tracked currency, and how far the market is from the official fix
+    const comparison = FX_MATRIX_CURRENCIES.map(currency => {
+      const marketRate = convert(1, currency, 'KZT', marketRates)
+      const officialRate = officialQuotes.find(q => q.base === currency)?.rate ?? null
+      const spread = marketRate !== null && officialRate !== null ? marketRate - officialRate : null
+      return {
+        currency,
+        market: marketRate,
+        official: officialRate,
+        spread,
+        spreadPercent: spread !== null && officialRate ? (spread / officialRate) * 100 : null,
+      }
+    })
+
+    return NextResponse.json({
+      base: 'USD',
+      // Official rates fill in currencies the market feed is missing
+      rates: { ...officialRates, ...marketRates },
+      quotes: marketQuotes,
+      official: officialQuotes,
+      officialDate: officialQuotes[0]?.updatedAt ?? null,
+      matrix: crossRates([...FX_MATRIX_CURRENCIES, 'KZT'], marketRates),
+      comparison,
+      updatedAt,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error in FX rates API:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch FX rates' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server'
+import { getHistory } from '@/lib/finance-api'
+import { getInstrument } from '@/lib/instruments'
+import { exchangeFor } from '@/lib/market-calendar'
+import {
+  RESAMPLE_INTERVALS,
+  INTERVAL_MS,
+  SOURCE_INTERVALS,
+  loadCandles,
+  findGaps,
+  upsertCandles,
+  type ResampleInterval,
+} from '@/lib/candles'
+
+// Most candles a single backfill asks the provider for
+const MAX_BACKFILL = 1000
+
+// Default number of candles when no range is given
+const DEFAULT_CANDLES = 100
+
+// Gap detection walks every candle slot and every calendar day in the range,
+// so the range is capped at this many of the finer of the two
+const MAX_RANGE_STEPS = 20000
+
+// GET /api/market/history?symbol=BTC&interval=4h&from=...&to=...&backfill=1
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const symbol = searchParams.get('symbol')
+    const interval = (searchParams.get('interval') || '1h') as ResampleInterval
+    const backfill = searchParams.get('backfill') === '1' || searchParams.get('backfill') === 'true'
+
+    if (!symbol) {
+      return NextResponse.json({ error: 'symbol is required' }, { status: 400 })
+    }
+    if (!RESAMPLE_INTERVALS.includes(interval)) {
+      return NextResponse.json(
+        { error: `interval must be one of ${RESAMPLE_INTERVALS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const instrument = await getInstrument(symbol.toUpperCase())
+    if (!instrument) {
+      return NextResponse.json({ error: `Unknown instrument: ${symbol}` }, { status: 404 })
+    }
+
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : new Date()
+    const from = searchParams.get('from')
+      ? new Date(searchParams.get('from')!)
+      : new Date(to.getTime() - DEFAULT_CANDLES * INTERVAL_MS[interval])
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      return NextResponse.json({ error: 'Invalid from/to range' }, { status: 400 })
+    }
+    const step = Math.min(INTERVAL_MS[interval], INTERVAL_MS['1d'])
+    if ((to.getTime() - from.getTime()) / step > MAX_RANGE_STEPS) {
+      return NextResponse.json(
+        { error: `Range too long: at most ${MAX_RANGE_STEPS} ${interval === '1wk' ? 'days' : `${interval} candles`}` },
+        { status: 400 }
+      )
+    }
+
+    // Hours the venue is shut are not reported as gaps
+    const exchange = exchangeFor(instrument)
+    let { sourceInterval, candles } = await loadCandles(instrument.symbol, interval, from, to)
+    let gaps = findGaps(candles, interval, from, to, exchange)
+    let backfilled = false
+
+    // Fetch the uncached part of the range from the provider and retry
+    if (backfill && gaps.length > 0) {
+      const fetchInterval = SOURCE_INTERVALS[interval][0]
+      const limit = Math.min(
+        Math.ceil((Date.now() - from.getTime()) / INTERVAL_MS[fetchInterval]) + 1,
+        MAX_BACKFILL
+      )
+      const history = await getHistory(instrument.providerTicker, fetchInterval, limit)
+      const written = await upsertCandles(instrument.symbol, fetchInterval, history)
+      backfilled = written.inserted + written.updated > 0
+
+      if (backfilled) {
+        ;({ sourceInterval, candles } = await loadCandles(instrument.symbol, interval, from, to))
+        gaps = findGaps(candles, interval, from, to, exchange)
+      }
+    }
+
+    return NextResponse.json({
+      symbol: instrument.symbol,
+      interval,
+      sourceInterval,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      candles: candles.map(c => ({
+        timestamp: new Date(c.timestamp * 1000).toISOString(),
+        open: c.open,
+        high: c.high,
+        low: c.low,
+        close: c.close,
+        volume: c.volume,
+      })),
+      gaps,
+      backfilled,
+    })
+  } catch (error) {
+    console.error('Error in market history API:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch price history' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,118 @@
+import { NextResponse } from 'next/server'
+import { getInstrument } from '@/lib/instruments'
+import { RESAMPLE_INTERVALS, INTERVAL_MS, loadCandles, type ResampleInterval } from '@/lib/candles'
+import { INDICATORS, parseIndicatorParams, warmupCandles } from '@/lib/indicators'
+
+// Default number of candles when no range is given
+const DEFAULT_CANDLES = 100
+
+// GET /api/market/indicators?symbol=BTC&indicator=bollinger&params=period:20,stdDev:2&interval=1h&from=...&to=...
+// Without `indicator`, returns the latest value of every indicator at its defaults
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const symbol = searchParams.get('symbol')
+    const name = searchParams.get('indicator')
+    const interval = (searchParams.get('interval') || '1h') as ResampleInterval
+
+    if (!symbol) {
+      return NextResponse.json({ error: 'symbol is required' }, { status: 400 })
+    }
+    if (!RESAMPLE_INTERVALS.includes(interval)) {
+      return NextResponse.json(
+        { error: `interval must be one of ${RESAMPLE_INTERVALS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (name && !Object.hasOwn(INDICATORS, name)) {
+      return NextResponse.json(
+        { error: `indicator must be one of ${Object.keys(INDICATORS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const instrument = await getInstrument(symbol.toUpperCase())
+    if (!instrument) {
+      return NextResponse.json({ error: `Unknown instrument: ${symbol}` }, { status: 404 })
+    }
+
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : new Date()
+    const from = searchParams.get('from')
+      ? new Date(searchParams.get('from')!)
+      : new Date(to.getTime() - DEFAULT_CANDLES * INTERVAL_MS[interval])
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      return NextResponse.json({ error: 'Invalid from/to range' }, { status: 400 })
+    }
+
+    if (!name) {
+      const params = Object.fromEntries(
+        Object.entries(INDICATORS).map(([key, definition]) => [key, definition.defaults])
+      )
+      const warmup = Math.max(...Object.values(params).map(warmupCandles))
+      const { candles } = await loadCandles(
+        instrument.symbol,
+        interval,
+        new Date(to.getTime() - warmup * INTERVAL_MS[interval]),
+        to
+      )
+      const last = candles[candles.length - 1]
+
+      const latest = Object.fromEntries(
+        Object.entries(INDICATORS).map(([key, definition]) => {
+          const series = definition.compute(candles, definition.defaults)
+          return [key, Object.fromEntries(definition.outputs.map(output => [output, series[output].at(-1) ?? null]))]
+        })
+      )
+
+      return NextResponse.json({
+        symbol: instrument.symbol,
+        interval,
+        timestamp: last ? new Date(last.timestamp * 1000).toISOString() : null,
+        close: last?.close ?? null,
+        latest,
+      })
+    }
+
+    const definition = INDICATORS[name]
+    let params: Record<string, number>
+    try {
+      params = parseIndicatorParams(definition, searchParams.get('params'))
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 })
+    }
+
+    // Load extra candles before the range so the first values are warmed up
+    const warmupFrom = new Date(from.getTime() - warmupCandles(params) * INTERVAL_MS[interval])
+    const { sourceInterval, candles } = await loadCandles(instrument.symbol, interval, warmupFrom, to)
+    const series = definition.compute(candles, params)
+    const start = from.getTime() / 1000
+
+    const values = candles
+      .map((candle, i) => ({
+        timestamp: candle.timestamp,
+        ...Object.fromEntries(definition.outputs.map(output => [output, series[output][i]])),
+      }))
+      .filter(point => point.timestamp >= start)
+      .map(point => ({ ...point, timestamp: new Date(point.timestamp * 1000).toISOString() }))
+
+    return NextResponse.json({
+      symbol: instrument.symbol,
+      interval,
+      sourceInterval,
+      indicator: name,
+      label: definition.label,
+      overlay: definition.overlay,
+      params,
+      outputs: definition.outputs,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      values,
+    })
+  } catch (error) {
+    console.error('Error in market indicators API:', error)
+    return NextResponse.json(
+      { error: 'Failed to compute indicator' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,115 +1,75 @@
 import { NextResponse } from 'next/server'
-import { getSnapshots, MARKET_SYMBOLS } from '@/lib/finance-api'
+import { getSnapshotsWithMeta, type QuoteResponse } from '@/lib/finance-api'
+import { getInstruments, byProviderTicker, type Instrument } from '@/lib/instruments'
 import { db } from '@/lib/db'
+import { storeMarketPrices, type MarketPriceInput } from '@/lib/market-prices'
+import { getInstrumentMarketState } from '@/lib/market-calendar'
 
-// Symbol display names mapping
-const SYMBOL_NAMES: Record<string, string> = {
-  '^GSPC': 'S&P 500',
-  'GC=F': 'Gold',
-  'SI=F': 'Silver',
-  'BTC-USD': 'Bitcoin',
-  'ETH-USD': 'Ethereum',
-  'KZT=X': 'USD/KZT',
-  'SP500': 'S&P 500',
-  'GOLD': 'Gold',
-  'SILVER': 'Silver',
-  'BTC': 'Bitcoin',
-  'ETH': 'Ethereum',
-  'USDKZT': 'USD/KZT',
-}
+// Prices older than this are flagged stale; the prices job runs every minute.
+// For a closed market the age is measured at its last close.
+const STALE_AFTER_MS = 15 * 60 * 1000
+
+type PriceSource = 'live' | 'cache'
 
-// Map API symbols to display symbols
-const SYMBOL_MAP: Record<string, string> = {
-  '^GSPC': 'SP500',
-  'GC=F': 'GOLD',
-  'SI=F': 'SILVER',
-  'BTC-USD': 'BTC',
-  'ETH-USD': 'ETH',
-  'KZT=X': 'USDKZT',
+// Map provider quotes onto registry symbols, dropping unknown tickers
+function toMarketPrices(quotes: QuoteResponse[], instrumentsByTicker: Map<string, Instrument>): MarketPriceInput[] {
+  return quotes.flatMap(item => {
+    const instrument = instrumentsByTicker.get(item.ticker)
+    if (!instrument) return []
+    return [{
+      symbol: instrument.symbol,
+      name: instrument.name,
+      price: item.price,
+      change24h: item.changePercent,
+      high24h: item.high,
+      low24h: item.low,
+      volume: item.volume,
+    }]
+  })
 }
 
+// Current price per instrument. Each carries its own source, fetch time, stale
+// flag and market state: live quotes are merged with stored rows for any
+// symbol the provider did not return.
 export async function GET() {
   try {
-    const symbols = [
-      MARKET_SYMBOLS.SP500,
-      MARKET_SYMBOLS.GOLD,
-      MARKET_SYMBOLS.SILVER,
-      MARKET_SYMBOLS.BITCOIN,
-      MARKET_SYMBOLS.ETHEREUM,
-      MARKET_SYMBOLS.USDKZT,
-    ]
+    const instruments = await getInstruments()
+    const instrumentsByTicker = byProviderTicker(instruments)
+    const symbols = instruments.map(i => i.providerTicker)
 
-    let prices: Array<{
-      symbol: string
-      name: string
-      price: number
-      change24h: number | null
-      high24h: number | null
-      low24h: number | null
-      volume: number | null
-    }> = []
-
-    let dataSource = 'live'
+    const prices = new Map<string, MarketPriceInput & { source: PriceSource; fetchedAt: Date }>()
 
     try {
-      // Fetch data from Finance API with timeout
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 15000)
-      
-      const snapshotData = await getSnapshots(symbols)
-      clearTimeout(timeoutId)
-      
-      if (snapshotData && snapshotData.length > 0) {
-        for (const item of snapshotData) {
-          // Get the display symbol
-          const displaySymbol = SYMBOL_MAP[item.ticker] || item.ticker
-          const displayName = SYMBOL_NAMES[item.ticker] || item.name
-          
-          const priceData = {
-            symbol: displaySymbol,
-            name: displayName,
-            price: item.price,
-            change24h: item.changePercent,
-            high24h: item.high,
-            low24h: item.low,
-            volume: item.volume,
-          }
-          
-          prices.push(priceData)
-
-          // Store in database for caching
-          try {
-            await db.marketPrice.upsert({
-              where: { symbol: displaySymbol },
-              update: {
-                name: displayName,
-                price: priceData.price,
-                change24h: priceData.change24h,
-                high24h: priceData.high24h,
-                low24h: priceData.low24h,
-                volume: priceData.volume,
-                updatedAt: new Date(),
-              },
-              create: priceData,
-            })
-          } catch (dbError) {
-            console.error('DB error:', dbError)
-          }
+      // Quotes are stored whenever upstream is called, including background
+      // revalidations of a stale entry, so alerts fire on every fresh price
+      const snapshot = await getSnapshotsWithMeta(symbols, async quotes => {
+        const fetched = toMarketPrices(quotes, instrumentsByTicker)
+        if (fetched.length === 0) return
+        try {
+          await storeMarketPrices(fetched)
+          console.log('Successfully fetched live prices:', fetched.map(p => `${p.symbol}: ${p.price}`).join(', '))
+        } catch (error) {
+          console.error('Error storing live prices:', error)
         }
-        
-        console.log('Successfully fetched live prices:', prices.map(p => `${p.symbol}: ${p.price}`).join(', '))
+      })
+
+      // Only quotes fetched for this request are live; hit and stale ones come from the cache
+      const source: PriceSource = snapshot.status === 'miss' ? 'live' : 'cache'
+      for (const price of toMarketPrices(snapshot.value, instrumentsByTicker)) {
+        prices.set(price.symbol, { ...price, source, fetchedAt: snapshot.fetchedAt })
       }
     } catch (apiError) {
       console.error('Finance API error, falling back to cached data:', apiError)
-      dataSource = 'cache'
     }
 
-    // Fallback to database cache if needed
-    if (prices.length === 0) {
-      const cachedPrices = await db.marketPrice.findMany()
-      
-      if (cachedPrices.length > 0) {
-        prices = cachedPrices.map(p => ({
+    // Fill symbols the provider missed from the database
+    const missing = instruments.filter(i => !prices.has(i.symbol)).map(i => i.symbol)
+    if (missing.length > 0) {
+      const cachedPrices = await db.marketPrice.findMany({
+        where: { symbol: { in: missing } },
+      })
+      for (const p of cachedPrices) {
+        prices.set(p.symbol, {
           symbol: p.symbol,
           name: p.name,
           price: p.price,
@@ -117,23 +77,44 @@ export async function GET() {
           high24h: p.high24h,
           low24h: p.low24h,
           volume: p.volume,
-        }))
-        dataSource = 'cache'
+          source: 'cache',
+          fetchedAt: p.updatedAt,
+        })
       }
     }
 
-    // Ensure all required symbols are present
-    const requiredSymbols = ['SP500', 'GOLD', 'SILVER', 'BTC', 'ETH', 'USDKZT']
-    for (const symbol of requiredSymbols) {
-      if (!prices.find(p => p.symbol === symbol)) {
-        console.warn(`Missing price for ${symbol}`)
+    // Attach display metadata and keep registry order
+    const now = new Date()
+    const ordered = instruments.flatMap(instrument => {
+      const price = prices.get(instrument.symbol)
+      if (!price) {
+        console.warn(`Missing price for ${instrument.symbol}`)
+        return []
       }
-    }
+      const market = getInstrumentMarketState(instrument, now)
+      const asOf = !market.open && market.lastClose ? market.lastClose : now
+      return [{
+        ...price,
+        fetchedAt: price.fetchedAt.toISOString(),
+        stale: asOf.getTime() - price.fetchedAt.getTime() > STALE_AFTER_MS,
+        market: {
+          exchange: market.exchange,
+          open: market.open,
+          lastClose: market.lastClose?.toISOString() ?? null,
+          nextOpen: market.nextOpen?.toISOString() ?? null,
+        },
+        assetClass: instrument.assetClass,
+        quoteCurrency: instrument.quoteCurrency,
+        decimals: instrument.decimals,
+      }]
+    })
 
+    const sources = new Set(ordered.map(p => p.source))
     return NextResponse.json({ 
-      prices,
+      prices: ordered,
       timestamp: new Date().toISOString(),
-      source: dataSource,
+      // Summary of the per-symbol sources
+      source: sources.size > 1 ? 'mixed' : sources.has('live') ? 'live' : 'cache',
     })
   } catch (error) {
     console.error('Error in market prices API:', error)
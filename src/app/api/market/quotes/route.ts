@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { getWatchlistPrices, resolveTicker } from '@/lib/watchlists'
+
+// Most symbols a single request may ask for
+const MAX_SYMBOLS = 50
+
+// GET /api/market/quotes?symbols=BTC,ETH,AAPL
+// Live provider quotes for display symbols or raw tickers, without storing
+// them; polled by the price-stream service
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const symbols = (searchParams.get('symbols') || '')
+      .split(',')
+      .map(s => s.trim())
+      .filter(Boolean)
+
+    if (symbols.length === 0) {
+      return NextResponse.json({ error: 'symbols is required' }, { status: 400 })
+    }
+    if (symbols.length > MAX_SYMBOLS) {
+      return NextResponse.json({ error: `At most ${MAX_SYMBOLS} symbols per request` }, { status: 400 })
+    }
+
+    const tickers = Array.from(new Set(await Promise.all(symbols.map(resolveTicker))))
+    const prices = await getWatchlistPrices(tickers)
+
+    return NextResponse.json({
+      prices,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error in market quotes API:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch quotes' },
+      { status: 500 }
+    )
+  }
+}
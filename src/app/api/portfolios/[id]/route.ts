@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { valuePortfolio } from '@/lib/portfolio'
+
+const updatePortfolioSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+})
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Get a portfolio valued at current market prices, in USD and KZT
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const portfolio = await db.portfolio.findUnique({ where: { id } })
+    if (!portfolio) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 })
+    }
+
+    const valuation = await valuePortfolio(id)
+    return NextResponse.json({
+      portfolio,
+      ...valuation,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error valuing portfolio:', error)
+    return NextResponse.json(
+      { error: 'Failed to value portfolio' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const parsed = updatePortfolioSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid portfolio update', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const existing = await db.portfolio.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 })
+    }
+
+    const portfolio = await db.portfolio.update({ where: { id }, data: parsed.data })
+    return NextResponse.json({ portfolio })
+  } catch (error) {
+    console.error('Error updating portfolio:', error)
+    return NextResponse.json(
+      { error: 'Failed to update portfolio' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const existing = await db.portfolio.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 })
+    }
+
+    await db.portfolio.delete({ where: { id } })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting portfolio:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete portfolio' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { deleteTransaction } from '@/lib/portfolio'
+
+type RouteContext = { params: Promise<{ id: string; transactionId: string }> }
+
+// Delete a transaction and rebuild the holding it belonged to
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id, transactionId } = await params
+    const transaction = await db.transaction.findFirst({
+      where: { id: transactionId, portfolioId: id },
+    })
+    if (!transaction) {
+      return NextResponse.json({ error: 'Transaction not found' }, { status: 404 })
+    }
+
+    const { error } = await deleteTransaction(transaction)
+    if (error) {
+      // Removing an earlier buy would strand a later sell
+      return NextResponse.json({ error }, { status: 422 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting transaction:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete transaction' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { getInstrument } from '@/lib/instruments'
+import { recordTransaction, TRANSACTION_TYPES } from '@/lib/portfolio'
+
+const createTransactionSchema = z.object({
+  symbol: z.string().trim().min(1).max(30),
+  type: z.enum(TRANSACTION_TYPES),
+  quantity: z.number().positive(),
+  price: z.number().nonnegative().optional(),
+  fee: z.number().nonnegative().optional(),
+  note: z.string().trim().max(200).optional(),
+  executedAt: z.coerce.date().optional(),
+}).refine(
+  tx => tx.price !== undefined || tx.type === 'transfer_in' || tx.type === 'transfer_out',
+  { message: 'Price is required for buys and sells', path: ['price'] }
+)
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// List transactions, newest first
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const symbol = new URL(request.url).searchParams.get('symbol')
+
+    const transactions = await db.transaction.findMany({
+      where: { portfolioId: id, ...(symbol ? { symbol } : {}) },
+      orderBy: { executedAt: 'desc' },
+    })
+    return NextResponse.json({ transactions })
+  } catch (error) {
+    console.error('Error listing transactions:', error)
+    return NextResponse.json(
+      { error: 'Failed to list transactions' },
+      { status: 500 }
+    )
+  }
+}
+
+// Record a buy, sell or transfer and update the holding
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const portfolio = await db.portfolio.findUnique({ where: { id } })
+    if (!portfolio) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 })
+    }
+
+    const parsed = createTransactionSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid transaction', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    // Holdings are valued from MarketPrice, so only registered instruments qualify
+    const instrument = await getInstrument(parsed.data.symbol.toUpperCase())
+    if (!instrument) {
+      return NextResponse.json(
+        { error: `Unknown instrument: ${parsed.data.symbol}` },
+        { status: 422 }
+      )
+    }
+
+    const { transaction, error } = await recordTransaction({
+      portfolioId: id,
+      symbol: instrument.symbol,
+      type: parsed.data.type,
+      quantity: parsed.data.quantity,
+      price: parsed.data.price ?? null,
+      fee: parsed.data.fee ?? 0,
+      note: parsed.data.note,
+      executedAt: parsed.data.executedAt ?? new Date(),
+    })
+    if (error) {
+      // The transaction would leave a negative position
+      return NextResponse.json({ error }, { status: 422 })
+    }
+
+    return NextResponse.json({ transaction }, { status: 201 })
+  } catch (error) {
+    console.error('Error recording transaction:', error)
+    return NextResponse.json(
+      { error: 'Failed to record transaction' },
+      { status: 500 }
+    )
+  }
+}
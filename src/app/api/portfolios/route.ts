@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+
+const createPortfolioSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+})
+
+export async function GET() {
+  try {
+    const portfolios = await db.portfolio.findMany({
+      orderBy: { createdAt: 'asc' },
+    })
+    return NextResponse.json({ portfolios })
+  } catch (error) {
+    console.error('Error listing portfolios:', error)
+    return NextResponse.json(
+      { error: 'Failed to list portfolios' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const parsed = createPortfolioSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid portfolio', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const portfolio = await db.portfolio.create({ data: parsed.data })
+    return NextResponse.json({ portfolio }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating portfolio:', error)
+    return NextResponse.json(
+      { error: 'Failed to create portfolio' },
+      { status: 500 }
+    )
+  }
+}
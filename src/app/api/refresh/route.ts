@@ -1,195 +1,196 @@
 import { NextResponse } from 'next/server'
-import { getSnapshots, MARKET_SYMBOLS, getHistory } from '@/lib/finance-api'
+import type { RefreshRun } from '@prisma/client'
+import { getSnapshots, getHistory } from '@/lib/finance-api'
+import { getInstruments, byProviderTicker } from '@/lib/instruments'
 import { searchCryptoNews, searchCryptoPredictions, searchMarketAnalysis } from '@/lib/web-search'
 import { db } from '@/lib/db'
+import { storeMarketPrices } from '@/lib/market-prices'
+import { storeNews, newsFromSearch } from '@/lib/news'
+import { storeAnalysis } from '@/lib/analysis'
+import { refreshFxRates, refreshOfficialRates } from '@/lib/fx-rates'
+import { publishStreamEvent, pruneStreamEvents } from '@/lib/stream-events'
+import { CANDLE_INTERVALS, HISTORY_LIMITS, INTERVAL_MS, upsertCandles, rollupCandles } from '@/lib/candles'
+import { REFRESH_STEPS, parseSteps } from '@/lib/jobs'
+import { startRefreshRun, runRefreshStep, finishRefreshRun } from '@/lib/refresh-runs'
+import { pruneCache } from '@/lib/cache'
+import { getRejectedQuotes } from '@/lib/quote-validation'
+import { getInstrumentMarketState, closedSince } from '@/lib/market-calendar'
+import { rebuildSentimentIndex } from '@/lib/sentiment-index'
 
-export async function POST() {
+// POST /api/refresh?steps=prices,fx&job=prices
+// Runs the given refresh steps, or all of them. Scheduled jobs each run a subset
+// and pass their name as `job`; every call is recorded as a RefreshRun.
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url)
+  let steps: Set<string>
+  try {
+    const requested = searchParams.get('steps')
+    steps = new Set(requested ? parseSteps(requested) : REFRESH_STEPS)
+    // The sentiment index follows whatever news and analysis the run stores
+    if (steps.has('news') || steps.has('analysis')) steps.add('sentiment')
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 })
+  }
+
+  let run: RefreshRun | null = null
   try {
     const results = {
       prices: false,
+      fx: 0,
       news: false,
       analysis: false,
+      sentiment: false,
       history: false,
+      alerts: 0,
+      rejected: [] as Array<{ ticker: string; symbol: string | null; price: number | null; reason: string }>,
+      candles: { inserted: 0, updated: 0, rolledUp: 0 },
     }
 
+    run = await startRefreshRun(searchParams.get('job') || 'manual')
+    const startedAt = run.startedAt
+    await publishStreamEvent('refresh-status', {
+      status: 'started',
+      runId: run.id,
+      steps: Array.from(steps),
+      startedAt: startedAt.toISOString(),
+    })
+
+    const instruments = await getInstruments()
+    const instrumentsByTicker = byProviderTicker(instruments)
+
     // 1. Refresh market prices
-    try {
-      const symbols = [
-        MARKET_SYMBOLS.SP500,
-        MARKET_SYMBOLS.GOLD,
-        MARKET_SYMBOLS.SILVER,
-        MARKET_SYMBOLS.BITCOIN,
-        MARKET_SYMBOLS.ETHEREUM,
-        MARKET_SYMBOLS.USDKZT,
-      ]
-
-      const snapshotData = await getSnapshots(symbols)
-      
-      for (const item of snapshotData) {
-        let symbolName = item.ticker || item.symbol
-        let displayName = item.name || item.ticker || item.symbol
-        
-        if (symbolName === '^GSPC') {
-          displayName = 'S&P 500'
-          symbolName = 'SP500'
-        } else if (symbolName === 'GC=F') {
-          displayName = 'Gold'
-          symbolName = 'GOLD'
-        } else if (symbolName === 'SI=F') {
-          displayName = 'Silver'
-          symbolName = 'SILVER'
-        } else if (symbolName === 'BTC-USD') {
-          displayName = 'Bitcoin'
-          symbolName = 'BTC'
-        } else if (symbolName === 'ETH-USD') {
-          displayName = 'Ethereum'
-          symbolName = 'ETH'
-        } else if (symbolName === 'KZT=X') {
-          displayName = 'USD/KZT'
-          symbolName = 'USDKZT'
+    if (steps.has('prices')) {
+      results.prices = await runRefreshStep(run, 'prices', async step => {
+        // Closed markets are skipped once the stored price postdates their close
+        const storedAt = new Map(
+          (await db.marketPrice.findMany({ where: { symbol: { in: instruments.map(i => i.symbol) } } }))
+            .map(p => [p.symbol, p.updatedAt])
+        )
+        const due = instruments.filter(i => {
+          const updatedAt = storedAt.get(i.symbol)
+          return !updatedAt || !closedSince(getInstrumentMarketState(i), updatedAt)
+        })
+        if (due.length === 0) {
+          step.skipped = instruments.length
+          return
         }
 
-        await db.marketPrice.upsert({
-          where: { symbol: symbolName },
-          update: {
-            name: displayName,
-            price: item.price || item.regularMarketPrice || 0,
-            change24h: item.changePercent || item.regularMarketChangePercent || null,
-            high24h: item.high || item.regularMarketDayHigh || null,
-            low24h: item.low || item.regularMarketDayLow || null,
-            volume: item.volume || item.regularMarketVolume || null,
-            updatedAt: new Date(),
-          },
-          create: {
-            symbol: symbolName,
-            name: displayName,
-            price: item.price || item.regularMarketPrice || 0,
-            change24h: item.changePercent || item.regularMarketChangePercent || null,
-            high24h: item.high || item.regularMarketDayHigh || null,
-            low24h: item.low || item.regularMarketDayLow || null,
-            volume: item.volume || item.regularMarketVolume || null,
-          },
+        const snapshotData = await step.upstream(() => getSnapshots(due.map(i => i.providerTicker)))
+
+        const prices = snapshotData.flatMap(item => {
+          const instrument = instrumentsByTicker.get(item.ticker)
+          if (!instrument) return []
+          return [{
+            symbol: instrument.symbol,
+            name: instrument.name,
+            price: item.price || 0,
+            change24h: item.changePercent ?? null,
+            high24h: item.high || null,
+            low24h: item.low || null,
+            volume: item.volume || null,
+          }]
         })
-      }
-      
-      results.prices = true
-    } catch (error) {
-      console.error('Error refreshing prices:', error)
+
+        const { stored, inserted, alerts } = await storeMarketPrices(prices)
+        results.alerts = alerts.length
+        step.inserted = inserted
+        step.updated = stored - inserted
+        step.skipped = instruments.length - stored
+      })
+    }
+
+    // 1b. Refresh market and official FX rates
+    if (steps.has('fx')) {
+      await runRefreshStep(run, 'fx', async step => {
+        results.fx = await step.upstream(refreshFxRates) + await step.upstream(refreshOfficialRates)
+        step.updated = results.fx
+      })
     }
 
     // 2. Refresh crypto news
-    try {
-      const searchResults = await searchCryptoNews(20)
-      
-      for (const item of searchResults.slice(0, 15)) {
-        try {
-          await db.cryptoNews.upsert({
-            where: { url: item.url },
-            update: {
-              title: item.name || item.snippet?.slice(0, 100) || 'Untitled',
-              summary: item.snippet || null,
-              source: item.host_name || null,
-              category: 'news',
-              publishedAt: new Date(item.date || new Date()),
-            },
-            create: {
-              title: item.name || item.snippet?.slice(0, 100) || 'Untitled',
-              summary: item.snippet || null,
-              source: item.host_name || null,
-              url: item.url,
-              category: 'news',
-              publishedAt: new Date(item.date || new Date()),
-            },
-          })
-        } catch (dbError) {
-          // Skip duplicates
+    if (steps.has('news')) {
+      results.news = await runRefreshStep(run, 'news', async step => {
+        const searchResults = await step.upstream(() => searchCryptoNews(20))
+        const { created, updated, failed, lastError } = await storeNews(
+          searchResults.slice(0, 15).map(item => newsFromSearch(item, 'news'))
+        )
+        step.inserted = created.length
+        step.updated = updated
+        step.skipped = failed
+
+        // Every item failing to store is an outage, not a duplicate
+        if (lastError && step.inserted + step.updated === 0) {
+          throw new Error(`All ${step.skipped} news items failed to store: ${lastError instanceof Error ? lastError.message : lastError}`)
         }
-      }
-      
-      results.news = true
-    } catch (error) {
-      console.error('Error refreshing news:', error)
+      })
     }
 
     // 3. Refresh analysis and predictions
-    try {
-      const [predictions, analysisResults] = await Promise.all([
-        searchCryptoPredictions(10),
-        searchMarketAnalysis(10),
-      ])
-
-      const allItems = [
-        ...predictions.map((item: any) => ({ ...item, type: 'prediction' })),
-        ...analysisResults.map((item: any) => ({ ...item, type: 'analysis' })),
-      ]
-
-      for (const item of allItems.slice(0, 10)) {
-        const text = (item.name + ' ' + (item.snippet || '')).toLowerCase()
-        let sentiment: string | null = 'neutral'
-        
-        if (text.includes('bullish') || text.includes('surge') || text.includes('rally')) {
-          sentiment = 'bullish'
-        } else if (text.includes('bearish') || text.includes('drop') || text.includes('crash')) {
-          sentiment = 'bearish'
-        }
+    if (steps.has('analysis')) {
+      results.analysis = await runRefreshStep(run, 'analysis', async step => {
+        const [predictions, analysisResults] = await step.upstream(() => Promise.all([
+          searchCryptoPredictions(10),
+          searchMarketAnalysis(10),
+        ]))
 
-        let symbol = 'CRYPTO'
-        if (text.includes('bitcoin') || text.includes('btc')) symbol = 'BTC'
-        else if (text.includes('ethereum') || text.includes('eth')) symbol = 'ETH'
-
-        try {
-          await db.analysis.create({
-            data: {
-              symbol,
-              type: item.type,
-              title: item.name,
-              content: item.snippet || 'Click to read more...',
-              sentiment,
-            },
-          })
-        } catch (dbError) {
-          // Skip duplicates
-        }
-      }
-      
-      results.analysis = true
-    } catch (error) {
-      console.error('Error refreshing analysis:', error)
+        const allItems = [
+          ...predictions.map((item: any) => ({ ...item, type: 'prediction' })),
+          ...analysisResults.map((item: any) => ({ ...item, type: 'analysis' })),
+        ]
+
+        const { created, failed } = await storeAnalysis(allItems.slice(0, 10).map(item => ({
+          type: item.type,
+          title: item.name,
+          content: item.snippet || 'Click to read more...',
+        })))
+        step.inserted = created.length
+        step.skipped = failed
+      })
     }
 
-    // 4. Store price history for charts
-    try {
-      const historySymbols = [
-        { symbol: MARKET_SYMBOLS.BITCOIN, name: 'BTC' },
-        { symbol: MARKET_SYMBOLS.ETHEREUM, name: 'ETH' },
-        { symbol: MARKET_SYMBOLS.USDKZT, name: 'USDKZT' },
-      ]
-
-      for (const { symbol, name } of historySymbols) {
-        const history = await getHistory(symbol, '1h', 24)
-        
-        for (const candle of history) {
-          try {
-            await db.priceHistory.create({
-              data: {
-                symbol: name,
-                price: candle.close,
-                high: candle.high,
-                low: candle.low,
-                volume: candle.volume,
-                timestamp: new Date(candle.timestamp * 1000),
-                interval: '1h',
-              },
-            })
-          } catch (dbError) {
-            // Skip duplicates
+    // 4. Rebuild the recent sentiment index from stored news and analysis
+    if (steps.has('sentiment')) {
+      results.sentiment = await runRefreshStep(run, 'sentiment', async step => {
+        step.updated = await rebuildSentimentIndex()
+      })
+    }
+
+    // 5. Store OHLCV candles for every instrument, then roll hourly data up
+    if (steps.has('history')) {
+      results.history = await runRefreshStep(run, 'history', async step => {
+        // A day of hourly runs after the close picks up late candles; after
+        // that nothing changes until the market reopens
+        const settled = new Date(Date.now() - INTERVAL_MS['1d'])
+        for (const instrument of instruments) {
+          if (closedSince(getInstrumentMarketState(instrument), settled)) {
+            step.skipped++
+            continue
+          }
+          for (const interval of CANDLE_INTERVALS) {
+            const history = await step.upstream(() => getHistory(instrument.providerTicker, interval, HISTORY_LIMITS[interval]))
+            const written = await upsertCandles(instrument.symbol, interval, history)
+            results.candles.inserted += written.inserted
+            results.candles.updated += written.updated
           }
+
+          const rollup = await rollupCandles(instrument.symbol, new Date(Date.now() - HISTORY_LIMITS['1h'] * INTERVAL_MS['1h']))
+          results.candles.rolledUp += rollup['1d'].inserted + rollup['1d'].updated + rollup['1wk'].inserted + rollup['1wk'].updated
         }
-      }
-      
-      results.history = true
+        step.inserted = results.candles.inserted
+        step.updated = results.candles.updated + results.candles.rolledUp
+      })
+    }
+
+    // Quotes quarantined by validation while this run fetched prices
+    try {
+      results.rejected = (await getRejectedQuotes({ since: startedAt })).map(r => ({
+        ticker: r.ticker,
+        symbol: r.symbol,
+        price: r.price,
+        reason: r.reason,
+      }))
     } catch (error) {
-      console.error('Error refreshing history:', error)
+      console.error('Error reading rejected quotes:', error)
     }
 
     // Update last refresh time
@@ -199,13 +200,31 @@ export async function POST() {
       create: { key: 'lastRefresh', value: new Date().toISOString() },
     })
 
+    const finished = await finishRefreshRun(run)
+    await publishStreamEvent('refresh-status', {
+      status: 'completed',
+      runId: run.id,
+      runStatus: finished.status,
+      steps: Array.from(steps),
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      results,
+    })
+    await pruneStreamEvents()
+    await pruneCache()
+
     return NextResponse.json({ 
       success: true,
+      steps: Array.from(steps),
       results,
+      run: finished,
       timestamp: new Date().toISOString(),
     })
   } catch (error) {
     console.error('Error in refresh API:', error)
+    if (run) {
+      await finishRefreshRun(run, error instanceof Error ? error.message : String(error)).catch(() => null)
+    }
     return NextResponse.json(
       { error: 'Failed to refresh data' },
       { status: 500 }
@@ -214,6 +233,6 @@ export async function POST() {
 }
 
 // Also allow GET for easy testing
-export async function GET() {
-  return POST()
+export async function GET(request: Request) {
+  return POST(request)
 }
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { search, SEARCH_TYPES, type SearchType } from '@/lib/search'
+
+// GET /api/search?q=etf inflows&type=news&symbol=BTC&from=...&to=...&limit=20
+// Full-text search over stored news, analysis and predictions, best match first
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const q = searchParams.get('q')?.trim()
+    const type = searchParams.get('type') || undefined
+    const limit = searchParams.get('limit') ? Number(searchParams.get('limit')) : 20
+
+    if (!q) {
+      return NextResponse.json({ error: 'q is required' }, { status: 400 })
+    }
+    if (type && !SEARCH_TYPES.includes(type as SearchType)) {
+      return NextResponse.json(
+        { error: `type must be one of ${SEARCH_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 })
+    }
+
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : undefined
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : undefined
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime())) || (from && to && from > to)) {
+      return NextResponse.json({ error: 'Invalid from/to range' }, { status: 400 })
+    }
+
+    const results = await search({
+      q,
+      type: type as SearchType | undefined,
+      symbol: searchParams.get('symbol') || undefined,
+      from,
+      to,
+      limit: Math.min(limit, 100),
+    })
+
+    return NextResponse.json({
+      results,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error searching:', error)
+    return NextResponse.json(
+      { error: 'Failed to search' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server'
+import { INTERVAL_MS } from '@/lib/candles'
+import { SENTIMENT_INTERVALS, getSentimentHistory, type SentimentInterval } from '@/lib/sentiment-index'
+
+// Default number of buckets when no range is given
+const DEFAULT_BUCKETS = 60
+
+// GET /api/sentiment/history?symbol=BTC&interval=1d&from=...&to=...
+// Buckets without any news or analysis are left out.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const symbol = searchParams.get('symbol')?.toUpperCase()
+    const interval = (searchParams.get('interval') || '1d') as SentimentInterval
+
+    if (!symbol) {
+      return NextResponse.json({ error: 'symbol is required' }, { status: 400 })
+    }
+    if (!SENTIMENT_INTERVALS.includes(interval)) {
+      return NextResponse.json(
+        { error: `interval must be one of ${SENTIMENT_INTERVALS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : new Date()
+    const from = searchParams.get('from')
+      ? new Date(searchParams.get('from')!)
+      : new Date(to.getTime() - DEFAULT_BUCKETS * INTERVAL_MS[interval])
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      return NextResponse.json({ error: 'Invalid from/to range' }, { status: 400 })
+    }
+
+    const history = await getSentimentHistory(symbol, interval, from, to)
+
+    return NextResponse.json({
+      symbol,
+      interval,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      points: history.map(p => ({
+        timestamp: p.timestamp.toISOString(),
+        score: p.score,
+        confidence: p.confidence,
+        items: p.items,
+        sources: p.sources,
+      })),
+    })
+  } catch (error) {
+    console.error('Error in sentiment history API:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch sentiment history' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server'
+import {
+  STREAM_EVENT_TYPES,
+  getLatestStreamEventId,
+  getStreamEventsAfter,
+  type StreamEventType,
+} from '@/lib/stream-events'
+
+export const dynamic = 'force-dynamic'
+
+// How often the event log is checked for new rows
+const POLL_INTERVAL = 2000
+
+// Most events sent per read of the log
+const PAGE_SIZE = 500
+
+// Comment lines keep proxies from closing an idle connection
+const HEARTBEAT_INTERVAL = 15000
+
+// GET /api/stream?types=price,news
+// Server-Sent Events for price, news, analysis and refresh-status changes.
+// Send Last-Event-ID (or ?lastEventId=) to replay what was missed; without
+// it the stream starts from now.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+
+  const requested = searchParams.get('types')?.split(',').map(t => t.trim()).filter(Boolean)
+  const types = (requested?.length ? requested : [...STREAM_EVENT_TYPES]) as StreamEventType[]
+  const unknown = types.filter(t => !STREAM_EVENT_TYPES.includes(t))
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      { error: `types must be any of ${STREAM_EVENT_TYPES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  const resumeFrom = request.headers.get('last-event-id') || searchParams.get('lastEventId')
+  let lastId: number
+  try {
+    lastId = resumeFrom && /^\d+$/.test(resumeFrom) ? Number(resumeFrom) : await getLatestStreamEventId()
+  } catch (error) {
+    console.error('Error opening event stream:', error)
+    return NextResponse.json({ error: 'Failed to open event stream' }, { status: 500 })
+  }
+
+  const encoder = new TextEncoder()
+  let closed = false
+  let pollTimer: ReturnType<typeof setTimeout> | undefined
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined
+
+  const close = () => {
+    closed = true
+    clearTimeout(pollTimer)
+    clearInterval(heartbeatTimer)
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(text))
+        } catch {
+          close()
+        }
+      }
+
+      const poll = async () => {
+        try {
+          // Drain in pages so a long replay does not load the whole log at once
+          for (;;) {
+            const events = await getStreamEventsAfter(lastId, types, PAGE_SIZE)
+            for (const event of events) {
+              send(`id: ${event.id}\nevent: ${event.type}\ndata: ${event.data}\n\n`)
+              lastId = event.id
+            }
+            if (events.length < PAGE_SIZE || closed) break
+          }
+        } catch (error) {
+          console.error('Error reading stream events:', error)
+        }
+        if (!closed) pollTimer = setTimeout(poll, POLL_INTERVAL)
+      }
+
+      send('retry: 5000\n\n')
+      heartbeatTimer = setInterval(() => send(': keep-alive\n\n'), HEARTBEAT_INTERVAL)
+      request.signal.addEventListener('abort', () => {
+        close()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      })
+      poll()
+    },
+    cancel() {
+      close()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { resolveTicker } from '@/lib/watchlists'
+
+type RouteContext = { params: Promise<{ id: string; ticker: string }> }
+
+// Remove a ticker from a watchlist
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id, ticker: rawTicker } = await params
+    const ticker = await resolveTicker(decodeURIComponent(rawTicker))
+
+    const result = await db.watchlistItem.deleteMany({
+      where: { watchlistId: id, ticker },
+    })
+    if (result.count === 0) {
+      return NextResponse.json({ error: 'Ticker not in watchlist' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing watchlist item:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove ticker' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { resolveTicker, isSupportedTicker } from '@/lib/watchlists'
+
+const addItemSchema = z.object({
+  ticker: z.string().trim().min(1).max(30),
+})
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Append a ticker to the end of a watchlist
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const watchlist = await db.watchlist.findUnique({ where: { id } })
+    if (!watchlist) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 })
+    }
+
+    const parsed = addItemSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid ticker', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const ticker = await resolveTicker(parsed.data.ticker)
+    const existing = await db.watchlistItem.findUnique({
+      where: { watchlistId_ticker: { watchlistId: id, ticker } },
+    })
+    if (existing) {
+      return NextResponse.json({ item: existing })
+    }
+
+    if (!(await isSupportedTicker(ticker))) {
+      return NextResponse.json(
+        { error: `Unsupported ticker: ${parsed.data.ticker}` },
+        { status: 422 }
+      )
+    }
+
+    const count = await db.watchlistItem.count({ where: { watchlistId: id } })
+    const item = await db.watchlistItem.create({
+      data: { watchlistId: id, ticker, sortOrder: count },
+    })
+    return NextResponse.json({ item }, { status: 201 })
+  } catch (error) {
+    console.error('Error adding watchlist item:', error)
+    return NextResponse.json(
+      { error: 'Failed to add ticker' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { resolveTicker, isSupportedTicker, getWatchlistPrices, watchlistInclude } from '@/lib/watchlists'
+
+const updateWatchlistSchema = z.object({
+  name: z.string().trim().min(1).max(60).optional(),
+  // Full ticker list in display order; replaces the current items
+  tickers: z.array(z.string().trim().min(1).max(30)).max(50).optional(),
+})
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Get a watchlist with current prices for its tickers
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const watchlist = await db.watchlist.findUnique({ where: { id }, include: watchlistInclude })
+    if (!watchlist) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 })
+    }
+
+    const prices = await getWatchlistPrices(watchlist.items.map(item => item.ticker))
+    return NextResponse.json({
+      watchlist,
+      prices,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Error fetching watchlist:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch watchlist' },
+      { status: 500 }
+    )
+  }
+}
+
+// Rename a watchlist or replace/reorder its tickers
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const existing = await db.watchlist.findUnique({ where: { id }, include: watchlistInclude })
+    if (!existing) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 })
+    }
+
+    const parsed = updateWatchlistSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid watchlist update', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    let tickers: string[] | undefined
+    if (parsed.data.tickers) {
+      const current = new Set(existing.items.map(item => item.ticker))
+      tickers = []
+      for (const input of parsed.data.tickers) {
+        const ticker = await resolveTicker(input)
+        if (!current.has(ticker) && !(await isSupportedTicker(ticker))) {
+          return NextResponse.json(
+            { error: `Unsupported ticker: ${input}` },
+            { status: 422 }
+          )
+        }
+        if (!tickers.includes(ticker)) tickers.push(ticker)
+      }
+    }
+
+    const watchlist = await db.watchlist.update({
+      where: { id },
+      data: {
+        name: parsed.data.name,
+        items: tickers && {
+          deleteMany: {},
+          create: tickers.map((ticker, index) => ({ ticker, sortOrder: index })),
+        },
+      },
+      include: watchlistInclude,
+    })
+    return NextResponse.json({ watchlist })
+  } catch (error) {
+    console.error('Error updating watchlist:', error)
+    return NextResponse.json(
+      { error: 'Failed to update watchlist' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const existing = await db.watchlist.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 })
+    }
+
+    await db.watchlist.delete({ where: { id } })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting watchlist:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete watchlist' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { resolveTicker, isSupportedTicker, watchlistInclude } from '@/lib/watchlists'
+
+const createWatchlistSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  tickers: z.array(z.string().trim().min(1).max(30)).max(50).optional(),
+})
+
+const reorderWatchlistsSchema = z.object({
+  order: z.array(z.string()).min(1),
+})
+
+// List watchlists with their tickers
+export async function GET() {
+  try {
+    const watchlists = await db.watchlist.findMany({
+      include: watchlistInclude,
+      orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+    })
+    return NextResponse.json({ watchlists })
+  } catch (error) {
+    console.error('Error listing watchlists:', error)
+    return NextResponse.json(
+      { error: 'Failed to list watchlists' },
+      { status: 500 }
+    )
+  }
+}
+
+// Create a watchlist, optionally pre-filled with tickers
+export async function POST(request: Request) {
+  try {
+    const parsed = createWatchlistSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid watchlist', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const tickers: string[] = []
+    for (const input of parsed.data.tickers || []) {
+      const ticker = await resolveTicker(input)
+      if (!(await isSupportedTicker(ticker))) {
+        return NextResponse.json(
+          { error: `Unsupported ticker: ${input}` },
+          { status: 422 }
+        )
+      }
+      if (!tickers.includes(ticker)) tickers.push(ticker)
+    }
+
+    const count = await db.watchlist.count()
+    const watchlist = await db.watchlist.create({
+      data: {
+        name: parsed.data.name,
+        sortOrder: count,
+        items: { create: tickers.map((ticker, index) => ({ ticker, sortOrder: index })) },
+      },
+      include: watchlistInclude,
+    })
+    return NextResponse.json({ watchlist }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating watchlist:', error)
+    return NextResponse.json(
+      { error: 'Failed to create watchlist' },
+      { status: 500 }
+    )
+  }
+}
+
+// Reorder watchlists: { "order": [id, id, ...] }
+export async function PATCH(request: Request) {
+  try {
+    const parsed = reorderWatchlistsSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid watchlist order', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const known = new Set((await db.watchlist.findMany({
+      where: { id: { in: parsed.data.order } },
+      select: { id: true },
+    })).map(w => w.id))
+    const unknown = parsed.data.order.filter(id => !known.has(id))
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `Watchlist not found: ${unknown.join(', ')}` }, { status: 404 })
+    }
+
+    await db.$transaction(
+      parsed.data.order.map((id, index) =>
+        db.watchlist.update({ where: { id }, data: { sortOrder: index } })
+      )
+    )
+    return GET()
+  } catch (error) {
+    console.error('Error reordering watchlists:', error)
+    return NextResponse.json(
+      { error: 'Failed to reorder watchlists' },
+      { status: 500 }
+    )
+  }
+}
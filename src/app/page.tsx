@@ -1,37 +1,42 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import Link from 'next/link'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Skeleton } from '@/components/ui/skeleton'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { MarketCard, MarketCardSkeleton, type MarketPrice } from '@/components/dashboard/market-card'
+import { WatchlistManager, type Watchlist } from '@/components/dashboard/watchlist-manager'
+import { PortfolioPanel } from '@/components/dashboard/portfolio-panel'
+import { AlertsMenu } from '@/components/dashboard/alerts-menu'
+import { PriceChart } from '@/components/dashboard/price-chart'
+import { SignalsPanel } from '@/components/dashboard/signals-panel'
+import { CurrencySelector, useDisplayCurrency } from '@/components/dashboard/display-currency'
+import { FxPanel } from '@/components/dashboard/fx-panel'
+import { SearchPalette, type SearchHit } from '@/components/dashboard/search-palette'
+import { SentimentBadge } from '@/components/dashboard/sentiment-badge'
+import { SentimentChart } from '@/components/dashboard/sentiment-chart'
+import { usePriceStream } from '@/hooks/use-price-stream'
+import { formatChange, formatDate, timeAgo } from '@/lib/format'
 import { 
   TrendingUp, 
-  TrendingDown, 
   RefreshCw, 
   Bitcoin, 
   Coins, 
   LineChart, 
   Newspaper,
   Clock,
-  DollarSign,
   BarChart3,
-  AlertCircle
+  AlertCircle,
+  Wallet,
+  Landmark
 } from 'lucide-react'
 
 // Types
-interface MarketPrice {
-  symbol: string
-  name: string
-  price: number
-  change24h: number | null
-  high24h: number | null
-  low24h: number | null
-  volume: number | null
-}
-
 interface NewsItem {
   title: string
   summary: string | null
@@ -39,86 +44,47 @@ interface NewsItem {
   url: string
   category: string
   publishedAt: string
+  sentiment?: string | null
+  sentimentScore?: number | null
+  sentimentConfidence?: number | null
+  // Assets the story mentions, most mentioned first
+  symbols?: string[]
+  // Other sources that carried the same story
+  sources?: string[]
+  alsoReportedBy?: number
 }
 
 interface AnalysisItem {
   id: string
   symbol: string
+  symbols?: string[]
   type: string
   title: string
   content: string
   sentiment: string | null
+  sentimentScore?: number | null
+  sentimentConfidence?: number | null
   createdAt: string
 }
 
-interface PriceData {
-  timestamp: string
-  price: number
-}
-
-// Format price with appropriate decimals
-function formatPrice(price: number | null, symbol: string): string {
-  if (price === null || price === undefined) return 'N/A'
-  
-  if (symbol === 'USDKZT' || symbol === 'KZT=X') {
-    return price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
-  }
-  if (symbol.includes('BTC') || symbol.includes('BTC-USD')) {
-    return '$' + price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
-  }
-  if (symbol.includes('ETH') || symbol.includes('ETH-USD')) {
-    return '$' + price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
-  }
-  if (symbol.includes('GSPC') || symbol === '^GSPC' || symbol === 'SP500') {
-    return price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
-  }
-  
-  return '$' + price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
-}
-
-// Format percentage change
-function formatChange(change: number | null): { text: string; isPositive: boolean } {
-  if (change === null || change === undefined) {
-    return { text: 'N/A', isPositive: false }
-  }
-  return {
-    text: `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`,
-    isPositive: change >= 0
-  }
-}
-
-// Format date
-function formatDate(dateString: string): string {
-  const date = new Date(dateString)
-  return date.toLocaleDateString('en-US', { 
-    month: 'short', 
-    day: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit'
-  })
-}
-
-// Format time ago
-function timeAgo(dateString: string): string {
-  const date = new Date(dateString)
-  const now = new Date()
-  const seconds = Math.floor((now.getTime() - date.getTime()) / 1000)
-  
-  if (seconds < 60) return 'just now'
-  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`
-  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`
-  return `${Math.floor(seconds / 86400)}d ago`
-}
-
 export default function Dashboard() {
+  const { formatPrice } = useDisplayCurrency()
   const [marketPrices, setMarketPrices] = useState<MarketPrice[]>([])
   const [cryptoNews, setCryptoNews] = useState<NewsItem[]>([])
   const [analysis, setAnalysis] = useState<AnalysisItem[]>([])
-  const [priceHistory, setPriceHistory] = useState<Record<string, PriceData[]>>({})
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null)
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([])
+  const [selectedWatchlist, setSelectedWatchlist] = useState('overview')
+  const [watchlistPrices, setWatchlistPrices] = useState<MarketPrice[]>([])
+  const [watchlistLoading, setWatchlistLoading] = useState(false)
+  const [tab, setTab] = useState('news')
+  const [asset, setAsset] = useState('all')
+  const [assetNews, setAssetNews] = useState<NewsItem[]>([])
+  const [assetAnalysis, setAssetAnalysis] = useState<AnalysisItem[]>([])
+  const [loadedAsset, setLoadedAsset] = useState('all')
 
   // Fetch all data
   const fetchData = async (isRefresh = false) => {
@@ -158,8 +124,52 @@ export default function Dashboard() {
     }
   }
 
+  // Fetch watchlists, optionally switching to one (e.g. after creating it)
+  const fetchWatchlists = async (selectId?: string) => {
+    try {
+      const res = await fetch('/api/watchlists')
+      if (res.ok) {
+        const data = await res.json()
+        setWatchlists(data.watchlists || [])
+      }
+    } catch (err) {
+      console.error('Error fetching watchlists:', err)
+    }
+    if (selectId) setSelectedWatchlist(selectId)
+    else if (selectedWatchlist !== 'overview') fetchWatchlistPrices(selectedWatchlist)
+  }
+
+  // Fetch prices for the tickers in a watchlist
+  const fetchWatchlistPrices = async (id: string) => {
+    setWatchlistLoading(true)
+    try {
+      const res = await fetch(`/api/watchlists/${id}`)
+      if (res.ok) {
+        const data = await res.json()
+        setWatchlistPrices(data.prices || [])
+      }
+    } catch (err) {
+      console.error('Error fetching watchlist prices:', err)
+    } finally {
+      setWatchlistLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (selectedWatchlist === 'overview') return
+    fetchWatchlistPrices(selectedWatchlist)
+
+    // Keep the selected watchlist on the same 5 minute cadence as the overview
+    const interval = setInterval(() => {
+      fetchWatchlistPrices(selectedWatchlist)
+    }, 5 * 60 * 1000)
+
+    return () => clearInterval(interval)
+  }, [selectedWatchlist])
+
   useEffect(() => {
     fetchData()
+    fetchWatchlists()
     
     // Set up auto-refresh every 5 minutes
     const interval = setInterval(() => {
@@ -169,17 +179,63 @@ export default function Dashboard() {
     return () => clearInterval(interval)
   }, [])
 
-  // Get specific market prices
-  const getPrice = (symbols: string[]): MarketPrice | undefined => {
-    return marketPrices.find(p => symbols.includes(p.symbol))
-  }
+  const activeWatchlist = watchlists.find(w => w.id === selectedWatchlist) || null
+  const gridPrices = activeWatchlist ? watchlistPrices : marketPrices
+  const gridLoading = activeWatchlist ? watchlistLoading : loading
+
+  // Live ticks override the polled price when they are newer than it
+  const { ticks, connected: live } = usePriceStream(gridPrices.map(p => p.symbol))
+  const liveGridPrices = gridPrices.map(price => {
+    const tick = ticks[price.symbol]
+    if (!tick || (price.fetchedAt && tick.timestamp < price.fetchedAt)) return price
+    return {
+      ...price,
+      price: tick.price,
+      change24h: tick.change24h,
+      high24h: tick.high24h,
+      low24h: tick.low24h,
+      source: 'live' as const,
+      fetchedAt: tick.timestamp,
+      stale: false,
+    }
+  })
+
+  // With an asset selected the tabs list stored items tagged with it
+  useEffect(() => {
+    if (asset === 'all') return
+    let cancelled = false
+    const params = new URLSearchParams({ symbol: asset })
+    Promise.all([
+      fetch(`/api/crypto/news?${params}`).then(res => (res.ok ? res.json() : null)),
+      fetch(`/api/crypto/analysis?${params}`).then(res => (res.ok ? res.json() : null)),
+    ])
+      .then(([newsData, analysisData]) => {
+        if (cancelled) return
+        setAssetNews(newsData?.news || [])
+        setAssetAnalysis(analysisData?.analysis || [])
+        setLoadedAsset(asset)
+      })
+      .catch(err => console.error('Error fetching asset news:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [asset, lastUpdate])
 
-  const sp500 = getPrice(['^GSPC', 'SP500'])
-  const gold = getPrice(['GC=F', 'GOLD', 'GLD'])
-  const silver = getPrice(['SI=F', 'SILVER', 'SLV'])
-  const bitcoin = getPrice(['BTC-USD', 'BTC', 'BITCOIN'])
-  const ethereum = getPrice(['ETH-USD', 'ETH', 'ETHEREUM'])
-  const usdKzt = getPrice(['KZT=X', 'USDKZT'])
+  const visibleNews = asset === 'all' ? cryptoNews : assetNews
+  const visibleAnalysis = asset === 'all' ? analysis : assetAnalysis
+  const contentLoading = loading || (asset !== 'all' && loadedAsset !== asset)
+
+  const bitcoin = marketPrices.find(p => p.symbol === 'BTC')
+  const ethereum = marketPrices.find(p => p.symbol === 'ETH')
+
+  // News results open the article; analysis results switch to their tab
+  const openSearchHit = (hit: SearchHit) => {
+    if (hit.url) {
+      window.open(hit.url, '_blank', 'noopener,noreferrer')
+    } else {
+      setTab(hit.type === 'prediction' ? 'predictions' : 'analysis')
+    }
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 dark:from-slate-950 dark:via-slate-900 dark:to-slate-950">
@@ -204,10 +260,16 @@ export default function Dashboard() {
                   Updated {timeAgo(lastUpdate.toISOString())}
                 </div>
               )}
+              <SearchPalette onSelect={openSearchHit} />
+              <CurrencySelector />
+              <AlertsMenu symbols={marketPrices} />
               <Button 
                 variant="outline" 
                 size="sm" 
-                onClick={() => fetchData(true)}
+                onClick={() => {
+                  fetchData(true)
+                  if (selectedWatchlist !== 'overview') fetchWatchlistPrices(selectedWatchlist)
+                }}
                 disabled={refreshing}
               >
                 <RefreshCw className={`w-4 h-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
@@ -228,185 +290,55 @@ export default function Dashboard() {
 
         {/* Market Overview Cards */}
         <section className="mb-8">
-          <h2 className="text-lg font-semibold text-slate-900 dark:text-white mb-4 flex items-center gap-2">
-            <LineChart className="w-5 h-5" />
-            Market Overview
-          </h2>
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-white flex items-center gap-2">
+              <LineChart className="w-5 h-5" />
+              {activeWatchlist ? activeWatchlist.name : 'Market Overview'}
+              {live && (
+                <span className="flex items-center gap-1 text-xs font-normal text-emerald-600 dark:text-emerald-400">
+                  <span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
+                  Live
+                </span>
+              )}
+            </h2>
+            <div className="flex items-center gap-2">
+              <Select value={selectedWatchlist} onValueChange={setSelectedWatchlist}>
+                <SelectTrigger size="sm" className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="overview">Market Overview</SelectItem>
+                  {watchlists.map(w => (
+                    <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <WatchlistManager watchlist={activeWatchlist} onChange={fetchWatchlists} />
+            </div>
+          </div>
           
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
-            {/* S&P 500 */}
-            <Card className="relative overflow-hidden">
-              <CardHeader className="pb-2">
-                <CardDescription className="text-xs uppercase tracking-wider">S&P 500</CardDescription>
-              </CardHeader>
-              <CardContent>
-                {loading ? (
-                  <Skeleton className="h-8 w-24" />
-                ) : (
-                  <>
-                    <div className="text-2xl font-bold text-slate-900 dark:text-white">
-                      {formatPrice(sp500?.price || null, 'SP500')}
-                    </div>
-                    {sp500?.change24h !== null && sp500?.change24h !== undefined && (
-                      <div className={`flex items-center gap-1 text-sm mt-1 ${
-                        sp500.change24h >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'
-                      }`}>
-                        {sp500.change24h >= 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
-                        {formatChange(sp500.change24h).text}
-                      </div>
-                    )}
-                  </>
-                )}
-              </CardContent>
-              <div className="absolute top-0 right-0 w-16 h-16 bg-gradient-to-br from-blue-500/10 to-transparent rounded-bl-full" />
-            </Card>
-
-            {/* Gold */}
-            <Card className="relative overflow-hidden">
-              <CardHeader className="pb-2">
-                <CardDescription className="text-xs uppercase tracking-wider">Gold</CardDescription>
-              </CardHeader>
-              <CardContent>
-                {loading ? (
-                  <Skeleton className="h-8 w-24" />
-                ) : (
-                  <>
-                    <div className="text-2xl font-bold text-slate-900 dark:text-white">
-                      {formatPrice(gold?.price || null, 'GOLD')}
-                    </div>
-                    {gold?.change24h !== null && gold?.change24h !== undefined && (
-                      <div className={`flex items-center gap-1 text-sm mt-1 ${
-                        gold.change24h >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'
-                      }`}>
-                        {gold.change24h >= 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
-                        {formatChange(gold.change24h).text}
-                      </div>
-                    )}
-                  </>
-                )}
-              </CardContent>
-              <div className="absolute top-0 right-0 w-16 h-16 bg-gradient-to-br from-amber-500/10 to-transparent rounded-bl-full" />
-            </Card>
-
-            {/* Silver */}
-            <Card className="relative overflow-hidden">
-              <CardHeader className="pb-2">
-                <CardDescription className="text-xs uppercase tracking-wider">Silver</CardDescription>
-              </CardHeader>
-              <CardContent>
-                {loading ? (
-                  <Skeleton className="h-8 w-24" />
-                ) : (
-                  <>
-                    <div className="text-2xl font-bold text-slate-900 dark:text-white">
-                      {formatPrice(silver?.price || null, 'SILVER')}
-                    </div>
-                    {silver?.change24h !== null && silver?.change24h !== undefined && (
-                      <div className={`flex items-center gap-1 text-sm mt-1 ${
-                        silver.change24h >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'
-                      }`}>
-                        {silver.change24h >= 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
-                        {formatChange(silver.change24h).text}
-                      </div>
-                    )}
-                  </>
-                )}
-              </CardContent>
-              <div className="absolute top-0 right-0 w-16 h-16 bg-gradient-to-br from-slate-400/10 to-transparent rounded-bl-full" />
-            </Card>
-
-            {/* Bitcoin */}
-            <Card className="relative overflow-hidden">
-              <CardHeader className="pb-2">
-                <CardDescription className="text-xs uppercase tracking-wider flex items-center gap-1">
-                  <Bitcoin className="w-3 h-3" /> Bitcoin
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                {loading ? (
-                  <Skeleton className="h-8 w-24" />
-                ) : (
-                  <>
-                    <div className="text-2xl font-bold text-slate-900 dark:text-white">
-                      {formatPrice(bitcoin?.price || null, 'BTC')}
-                    </div>
-                    {bitcoin?.change24h !== null && bitcoin?.change24h !== undefined && (
-                      <div className={`flex items-center gap-1 text-sm mt-1 ${
-                        bitcoin.change24h >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'
-                      }`}>
-                        {bitcoin.change24h >= 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
-                        {formatChange(bitcoin.change24h).text}
-                      </div>
-                    )}
-                  </>
-                )}
-              </CardContent>
-              <div className="absolute top-0 right-0 w-16 h-16 bg-gradient-to-br from-orange-500/10 to-transparent rounded-bl-full" />
-            </Card>
-
-            {/* Ethereum */}
-            <Card className="relative overflow-hidden">
-              <CardHeader className="pb-2">
-                <CardDescription className="text-xs uppercase tracking-wider flex items-center gap-1">
-                  <Coins className="w-3 h-3" /> Ethereum
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                {loading ? (
-                  <Skeleton className="h-8 w-24" />
-                ) : (
-                  <>
-                    <div className="text-2xl font-bold text-slate-900 dark:text-white">
-                      {formatPrice(ethereum?.price || null, 'ETH')}
-                    </div>
-                    {ethereum?.change24h !== null && ethereum?.change24h !== undefined && (
-                      <div className={`flex items-center gap-1 text-sm mt-1 ${
-                        ethereum.change24h >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'
-                      }`}>
-                        {ethereum.change24h >= 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
-                        {formatChange(ethereum.change24h).text}
-                      </div>
-                    )}
-                  </>
-                )}
-              </CardContent>
-              <div className="absolute top-0 right-0 w-16 h-16 bg-gradient-to-br from-purple-500/10 to-transparent rounded-bl-full" />
-            </Card>
-
-            {/* USD/KZT */}
-            <Card className="relative overflow-hidden">
-              <CardHeader className="pb-2">
-                <CardDescription className="text-xs uppercase tracking-wider flex items-center gap-1">
-                  <DollarSign className="w-3 h-3" /> USD/KZT
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                {loading ? (
-                  <Skeleton className="h-8 w-24" />
-                ) : (
-                  <>
-                    <div className="text-2xl font-bold text-slate-900 dark:text-white">
-                      {formatPrice(usdKzt?.price || null, 'KZT=X')}
-                    </div>
-                    {usdKzt?.change24h !== null && usdKzt?.change24h !== undefined && (
-                      <div className={`flex items-center gap-1 text-sm mt-1 ${
-                        usdKzt.change24h >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'
-                      }`}>
-                        {usdKzt.change24h >= 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
-                        {formatChange(usdKzt.change24h).text}
-                      </div>
-                    )}
-                  </>
-                )}
-              </CardContent>
-              <div className="absolute top-0 right-0 w-16 h-16 bg-gradient-to-br from-teal-500/10 to-transparent rounded-bl-full" />
-            </Card>
+            {gridLoading
+              ? [...Array(activeWatchlist?.items.length || 6)].map((_, i) => <MarketCardSkeleton key={i} />)
+              : liveGridPrices.map(price => <MarketCard key={price.symbol} price={price} tick={ticks[price.symbol]} />)}
+            {activeWatchlist && !gridLoading && gridPrices.length === 0 && (
+              <div className="col-span-full text-center py-8 text-slate-500">
+                This watchlist is empty. Use Watchlists to add tickers.
+              </div>
+            )}
           </div>
         </section>
 
+        {/* Price Chart */}
+        {marketPrices.length > 0 && (
+          <section className="mb-8">
+            <PriceChart instruments={marketPrices} />
+          </section>
+        )}
+
         {/* Main Content Tabs */}
-        <Tabs defaultValue="news" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 max-w-md mx-auto">
+        <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-5 max-w-2xl mx-auto">
             <TabsTrigger value="news" className="flex items-center gap-2">
               <Newspaper className="w-4 h-4" />
               News
@@ -419,8 +351,32 @@ export default function Dashboard() {
               <TrendingUp className="w-4 h-4" />
               Predictions
             </TabsTrigger>
+            <TabsTrigger value="portfolio" className="flex items-center gap-2">
+              <Wallet className="w-4 h-4" />
+              Portfolio
+            </TabsTrigger>
+            <TabsTrigger value="fx" className="flex items-center gap-2">
+              <Landmark className="w-4 h-4" />
+              FX
+            </TabsTrigger>
           </TabsList>
 
+          {['news', 'analysis', 'predictions'].includes(tab) && (
+            <div className="flex justify-center">
+              <Select value={asset} onValueChange={setAsset}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All assets</SelectItem>
+                  {marketPrices.map(p => (
+                    <SelectItem key={p.symbol} value={p.symbol}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* News Tab */}
           <TabsContent value="news">
             <Card>
@@ -429,7 +385,7 @@ export default function Dashboard() {
                 <CardDescription>Latest updates from the crypto world, refreshed hourly</CardDescription>
               </CardHeader>
               <CardContent>
-                {loading ? (
+                {contentLoading ? (
                   <div className="space-y-4">
                     {[...Array(5)].map((_, i) => (
                       <div key={i} className="space-y-2">
@@ -439,14 +395,14 @@ export default function Dashboard() {
                       </div>
                     ))}
                   </div>
-                ) : cryptoNews.length === 0 ? (
+                ) : visibleNews.length === 0 ? (
                   <div className="text-center py-8 text-slate-500">
                     No news available. Click refresh to fetch latest news.
                   </div>
                 ) : (
                   <ScrollArea className="h-[600px] pr-4">
                     <div className="space-y-4">
-                      {cryptoNews.map((news, index) => (
+                      {visibleNews.map((news, index) => (
                         <a
                           key={index}
                           href={news.url}
@@ -472,6 +428,17 @@ export default function Dashboard() {
                             <Badge variant="outline" className="text-xs capitalize">
                               {news.category}
                             </Badge>
+                            <SentimentBadge item={news} className="text-xs" />
+                            {news.symbols?.map(symbol => (
+                              <Badge key={symbol} variant="outline" className="text-xs uppercase">
+                                {symbol}
+                              </Badge>
+                            ))}
+                            {!!news.alsoReportedBy && (
+                              <span title={news.sources?.join(', ')}>
+                                Also reported by {news.alsoReportedBy} {news.alsoReportedBy === 1 ? 'source' : 'sources'}
+                              </span>
+                            )}
                           </div>
                         </a>
                       ))}
@@ -483,14 +450,16 @@ export default function Dashboard() {
           </TabsContent>
 
           {/* Analysis Tab */}
-          <TabsContent value="analysis">
+          <TabsContent value="analysis" className="space-y-6">
+            {marketPrices.length > 0 && <SignalsPanel instruments={marketPrices} />}
+            {marketPrices.length > 0 && <SentimentChart instruments={marketPrices} />}
             <Card>
               <CardHeader>
                 <CardTitle>Market Analysis</CardTitle>
                 <CardDescription>Expert analysis and insights on cryptocurrency markets</CardDescription>
               </CardHeader>
               <CardContent>
-                {loading ? (
+                {contentLoading ? (
                   <div className="space-y-4">
                     {[...Array(3)].map((_, i) => (
                       <div key={i} className="space-y-2">
@@ -499,14 +468,14 @@ export default function Dashboard() {
                       </div>
                     ))}
                   </div>
-                ) : analysis.length === 0 ? (
+                ) : visibleAnalysis.length === 0 ? (
                   <div className="text-center py-8 text-slate-500">
                     No analysis available. Click refresh to fetch latest analysis.
                   </div>
                 ) : (
                   <ScrollArea className="h-[600px] pr-4">
                     <div className="space-y-6">
-                      {analysis.map((item) => (
+                      {visibleAnalysis.map((item) => (
                         <div
                           key={item.id}
                           className="p-4 rounded-lg border"
@@ -515,26 +484,17 @@ export default function Dashboard() {
                             <h3 className="font-medium text-slate-900 dark:text-white">
                               {item.title}
                             </h3>
-                            {item.sentiment && (
-                              <Badge 
-                                variant={
-                                  item.sentiment === 'bullish' ? 'default' : 
-                                  item.sentiment === 'bearish' ? 'destructive' : 
-                                  'secondary'
-                                }
-                                className="capitalize"
-                              >
-                                {item.sentiment}
-                              </Badge>
-                            )}
+                            <SentimentBadge item={item} />
                           </div>
                           <p className="text-sm text-slate-600 dark:text-slate-400 whitespace-pre-wrap">
                             {item.content}
                           </p>
                           <div className="flex items-center gap-3 mt-3 text-xs text-slate-500">
-                            <Badge variant="outline" className="text-xs uppercase">
-                              {item.symbol}
-                            </Badge>
+                            {(item.symbols ?? [item.symbol]).map(symbol => (
+                              <Badge key={symbol} variant="outline" className="text-xs uppercase">
+                                {symbol}
+                              </Badge>
+                            ))}
                             <span>{formatDate(item.createdAt)}</span>
                           </div>
                         </div>
@@ -554,7 +514,7 @@ export default function Dashboard() {
                 <CardDescription>AI-powered and expert predictions for cryptocurrency prices</CardDescription>
               </CardHeader>
               <CardContent>
-                {loading ? (
+                {contentLoading ? (
                   <div className="space-y-4">
                     {[...Array(3)].map((_, i) => (
                       <Skeleton key={i} className="h-24 w-full" />
@@ -563,7 +523,7 @@ export default function Dashboard() {
                 ) : (
                   <ScrollArea className="h-[600px] pr-4">
                     <div className="space-y-4">
-                      {analysis
+                      {visibleAnalysis
                         .filter(a => a.type === 'prediction')
                         .map((item) => (
                           <div
@@ -574,31 +534,22 @@ export default function Dashboard() {
                               <h3 className="font-medium text-slate-900 dark:text-white">
                                 {item.title}
                               </h3>
-                              {item.sentiment && (
-                                <Badge 
-                                  variant={
-                                    item.sentiment === 'bullish' ? 'default' : 
-                                    item.sentiment === 'bearish' ? 'destructive' : 
-                                    'secondary'
-                                  }
-                                  className="capitalize"
-                                >
-                                  {item.sentiment}
-                                </Badge>
-                              )}
+                              <SentimentBadge item={item} />
                             </div>
                             <p className="text-sm text-slate-600 dark:text-slate-400">
                               {item.content}
                             </p>
                             <div className="flex items-center gap-3 mt-3 text-xs text-slate-500">
-                              <Badge variant="outline" className="text-xs uppercase">
-                                {item.symbol}
-                              </Badge>
+                              {(item.symbols ?? [item.symbol]).map(symbol => (
+                                <Badge key={symbol} variant="outline" className="text-xs uppercase">
+                                  {symbol}
+                                </Badge>
+                              ))}
                               <span>{formatDate(item.createdAt)}</span>
                             </div>
                           </div>
                         ))}
-                      {analysis.filter(a => a.type === 'prediction').length === 0 && (
+                      {visibleAnalysis.filter(a => a.type === 'prediction').length === 0 && (
                         <div className="text-center py-8 text-slate-500">
                           No predictions available. Check back later for updates.
                         </div>
@@ -609,6 +560,16 @@ export default function Dashboard() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Portfolio Tab */}
+          <TabsContent value="portfolio">
+            <PortfolioPanel instruments={marketPrices} />
+          </TabsContent>
+
+          {/* FX Tab */}
+          <TabsContent value="fx">
+            <FxPanel />
+          </TabsContent>
         </Tabs>
 
         {/* Quick Stats */}
@@ -626,13 +587,13 @@ export default function Dashboard() {
                 <div>
                   <p className="text-sm text-slate-500">24h High</p>
                   <p className="text-lg font-semibold text-slate-900 dark:text-white">
-                    {formatPrice(bitcoin?.high24h || null, 'BTC')}
+                    {formatPrice(bitcoin?.high24h || null, bitcoin)}
                   </p>
                 </div>
                 <div>
                   <p className="text-sm text-slate-500">24h Low</p>
                   <p className="text-lg font-semibold text-slate-900 dark:text-white">
-                    {formatPrice(bitcoin?.low24h || null, 'BTC')}
+                    {formatPrice(bitcoin?.low24h || null, bitcoin)}
                   </p>
                 </div>
                 <div>
@@ -666,13 +627,13 @@ export default function Dashboard() {
                 <div>
                   <p className="text-sm text-slate-500">24h High</p>
                   <p className="text-lg font-semibold text-slate-900 dark:text-white">
-                    {formatPrice(ethereum?.high24h || null, 'ETH')}
+                    {formatPrice(ethereum?.high24h || null, ethereum)}
                   </p>
                 </div>
                 <div>
                   <p className="text-sm text-slate-500">24h Low</p>
                   <p className="text-lg font-semibold text-slate-900 dark:text-white">
-                    {formatPrice(ethereum?.low24h || null, 'ETH')}
+                    {formatPrice(ethereum?.low24h || null, ethereum)}
                   </p>
                 </div>
                 <div>
@@ -700,7 +661,9 @@ export default function Dashboard() {
         <div className="container mx-auto px-4 py-4">
           <div className="flex flex-col sm:flex-row items-center justify-between gap-4 text-sm text-slate-500 dark:text-slate-400">
             <p>FinScope - Real-time Market Intelligence</p>
-            <p>Data refreshes every hour automatically</p>
+            <Link href="/admin/refresh" className="hover:text-slate-900 dark:hover:text-white">
+              Data refreshes automatically · Refresh history
+            </Link>
           </div>
         </div>
       </footer>
@@ -0,0 +1,180 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Bell, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toast } from '@/hooks/use-toast'
+import { timeAgo } from '@/lib/format'
+
+interface AlertEvent {
+  id: string
+  symbol: string
+  message: string
+  price: number
+  read: boolean
+  triggeredAt: string
+}
+
+const CONDITION_LABELS: Record<string, string> = {
+  above: 'Price above',
+  below: 'Price below',
+  percent_change: '% change in 1h',
+  crosses_above_ma: 'Crosses above 20h MA',
+  crosses_below_ma: 'Crosses below 20h MA',
+}
+
+// Header bell with triggered alerts; new alerts are also shown as toasts
+export function AlertsMenu({ symbols }: { symbols: Array<{ symbol: string; name: string }> }) {
+  const [events, setEvents] = useState<AlertEvent[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [form, setForm] = useState({ symbol: '', condition: 'above', threshold: '' })
+  const [error, setError] = useState<string | null>(null)
+  const lastSeen = useRef<string | null>(null)
+
+  const fetchEvents = () => {
+    fetch('/api/alerts/events?limit=30')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!data) return
+        const latest: AlertEvent[] = data.events || []
+
+        // Toast only what arrived since the previous poll, not the backlog
+        if (lastSeen.current) {
+          latest
+            .filter(e => e.triggeredAt > lastSeen.current!)
+            .reverse()
+            .forEach(e => toast({ title: `${e.symbol} alert`, description: e.message }))
+        }
+        lastSeen.current = latest[0]?.triggeredAt || data.timestamp
+
+        setEvents(latest)
+        setUnreadCount(data.unreadCount || 0)
+      })
+      .catch(err => console.error('Error fetching alerts:', err))
+  }
+
+  useEffect(() => {
+    fetchEvents()
+
+    const interval = setInterval(() => {
+      fetchEvents()
+    }, 60 * 1000)
+
+    return () => clearInterval(interval)
+  }, [])
+
+  const markAllRead = async () => {
+    await fetch('/api/alerts/events', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    })
+    fetchEvents()
+  }
+
+  const createRule = async () => {
+    if (!form.symbol) return
+    setError(null)
+    const threshold = form.threshold ? Number(form.threshold) : undefined
+    const res = await fetch('/api/alerts/rules', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        symbol: form.symbol,
+        condition: form.condition,
+        threshold,
+        windowMinutes: form.condition === 'percent_change' ? 60 : undefined,
+        maPeriod: form.condition.startsWith('crosses_') ? 20 : undefined,
+      }),
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error || 'Failed to create alert')
+      return
+    }
+    setForm({ ...form, threshold: '' })
+    toast({ title: 'Alert created', description: `${data.rule.symbol}: ${CONDITION_LABELS[data.rule.condition]}` })
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="relative">
+          <Bell className="w-4 h-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium text-slate-900 dark:text-white">Alerts</h3>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={markAllRead}>Mark all read</Button>
+          )}
+        </div>
+
+        {events.length === 0 ? (
+          <p className="text-sm text-slate-500">No alerts triggered yet.</p>
+        ) : (
+          <ScrollArea className="h-56 pr-3">
+            <ul className="space-y-2">
+              {events.map(event => (
+                <li key={event.id} className={`text-sm rounded-md border p-2 ${event.read ? 'opacity-60' : ''}`}>
+                  <p className="text-slate-900 dark:text-white">{event.message}</p>
+                  <p className="text-xs text-slate-500">{timeAgo(event.triggeredAt)}</p>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+
+        <div className="border-t pt-3 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={form.symbol || undefined} onValueChange={symbol => setForm({ ...form, symbol })}>
+              <SelectTrigger size="sm" className="w-full">
+                <SelectValue placeholder="Asset" />
+              </SelectTrigger>
+              <SelectContent>
+                {symbols.map(s => (
+                  <SelectItem key={s.symbol} value={s.symbol}>{s.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={form.condition} onValueChange={condition => setForm({ ...form, condition })}>
+              <SelectTrigger size="sm" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CONDITION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            {!form.condition.startsWith('crosses_') && (
+              <Input
+                className="h-8"
+                type="number"
+                placeholder={form.condition === 'percent_change' ? 'Percent, e.g. -5' : 'Price'}
+                value={form.threshold}
+                onChange={e => setForm({ ...form, threshold: e.target.value })}
+              />
+            )}
+            <Button size="sm" onClick={createRule} disabled={!form.symbol}>
+              <Plus className="w-4 h-4" /> New alert
+            </Button>
+          </div>
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,112 @@
+'use client'
+
+import { createContext, useContext, useEffect, useState } from 'react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { DISPLAY_CURRENCIES, convert as convertCurrency, type DisplayCurrency } from '@/lib/fx'
+import { formatMoney, formatPrice as formatQuotePrice, timeAgo, type PriceFormat } from '@/lib/format'
+
+const STORAGE_KEY = 'displayCurrency'
+
+interface DisplayCurrencyContextValue {
+  currency: DisplayCurrency
+  setCurrency: (currency: DisplayCurrency) => void
+  // Units of each currency per 1 USD
+  rates: Record<string, number>
+  updatedAt: string | null
+  // Amount in `from` converted to the display currency, null without a rate
+  convert: (amount: number | null, from?: string) => number | null
+  // Instrument price in the display currency; index points and FX rates as-is
+  formatPrice: (price: number | null, format?: PriceFormat) => string
+}
+
+const DisplayCurrencyContext = createContext<DisplayCurrencyContextValue | null>(null)
+
+export function DisplayCurrencyProvider({ children }: { children: React.ReactNode }) {
+  const [currency, setCurrencyState] = useState<DisplayCurrency>('USD')
+  const [rates, setRates] = useState<Record<string, number>>({ USD: 1 })
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null)
+
+  const fetchRates = () => {
+    fetch('/api/market/fx')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!data) return
+        setRates(data.rates || { USD: 1 })
+        setUpdatedAt(data.updatedAt)
+
+        // Restore the saved choice once there are rates to apply it with
+        const saved = localStorage.getItem(STORAGE_KEY) as DisplayCurrency | null
+        if (saved && DISPLAY_CURRENCIES.includes(saved)) setCurrencyState(saved)
+      })
+      .catch(err => console.error('Error fetching FX rates:', err))
+  }
+
+  useEffect(() => {
+    fetchRates()
+
+    const interval = setInterval(() => {
+      fetchRates()
+    }, 60 * 60 * 1000)
+
+    return () => clearInterval(interval)
+  }, [])
+
+  const setCurrency = (next: DisplayCurrency) => {
+    setCurrencyState(next)
+    localStorage.setItem(STORAGE_KEY, next)
+  }
+
+  const convert = (amount: number | null, from: string = 'USD') =>
+    convertCurrency(amount, from, currency, rates)
+
+  const formatPrice = (price: number | null, format: PriceFormat = {}) => {
+    if (format.assetClass === 'index' || format.assetClass === 'forex') {
+      return formatQuotePrice(price, format)
+    }
+    const converted = convert(price, format.quoteCurrency || 'USD')
+    // Without a rate, show the price in its own currency rather than nothing
+    if (converted === null) return formatQuotePrice(price, format)
+    return formatMoney(converted, currency, format.decimals ?? 2)
+  }
+
+  return (
+    <DisplayCurrencyContext.Provider value={{ currency, setCurrency, rates, updatedAt, convert, formatPrice }}>
+      {children}
+    </DisplayCurrencyContext.Provider>
+  )
+}
+
+export function useDisplayCurrency(): DisplayCurrencyContextValue {
+  const context = useContext(DisplayCurrencyContext)
+  if (!context) {
+    throw new Error('useDisplayCurrency must be used within a DisplayCurrencyProvider')
+  }
+  return context
+}
+
+// Header selector with the rate being applied and its age
+export function CurrencySelector() {
+  const { currency, setCurrency, rates, updatedAt } = useDisplayCurrency()
+  const rate = rates[currency]
+
+  return (
+    <div className="flex items-center gap-2">
+      {currency !== 'USD' && (
+        <span className="hidden md:inline text-xs text-slate-500">
+          {rate ? `1 USD = ${formatMoney(rate, currency)}` : `No ${currency} rate`}
+          {rate && updatedAt && ` · ${timeAgo(updatedAt)}`}
+        </span>
+      )}
+      <Select value={currency} onValueChange={value => setCurrency(value as DisplayCurrency)}>
+        <SelectTrigger size="sm" className="w-24">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {DISPLAY_CURRENCIES.map(c => (
+            <SelectItem key={c} value={c}>{c}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Landmark } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatDate } from '@/lib/format'
+
+interface Comparison {
+  currency: string
+  market: number | null
+  official: number | null
+  spread: number | null
+  spreadPercent: number | null
+}
+
+interface FxData {
+  matrix: Record<string, Record<string, number | null>>
+  comparison: Comparison[]
+  officialDate: string | null
+  updatedAt: string | null
+}
+
+// Small rates (e.g. KZT in USD) need more digits to be readable
+function formatRate(rate: number | null): string {
+  if (rate === null) return 'N/A'
+  const decimals = rate >= 100 ? 2 : rate >= 1 ? 4 : 6
+  return rate.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
+}
+
+function spreadClass(value: number | null): string {
+  if (value === null) return ''
+  return value >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'
+}
+
+// Tenge rates against the official fix, and the full cross-rate matrix
+export function FxPanel() {
+  const [fx, setFx] = useState<FxData | null>(null)
+
+  useEffect(() => {
+    fetch('/api/market/fx')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => data && setFx(data))
+      .catch(err => console.error('Error fetching FX matrix:', err))
+  }, [])
+
+  if (!fx) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <Skeleton className="h-64 w-full" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const currencies = Object.keys(fx.matrix)
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Landmark className="w-5 h-5" />
+            Tenge: Market vs Official
+          </CardTitle>
+          <CardDescription>
+            Official rates from the National Bank of Kazakhstan
+            {fx.officialDate && ` for ${new Date(fx.officialDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })}`}
+            {fx.updatedAt && ` · market as of ${formatDate(fx.updatedAt)}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Currency</TableHead>
+                <TableHead className="text-right">Market</TableHead>
+                <TableHead className="text-right">Official</TableHead>
+                <TableHead className="text-right">Spread</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {fx.comparison.map(row => (
+                <TableRow key={row.currency}>
+                  <TableCell className="font-medium">{row.currency}/KZT</TableCell>
+                  <TableCell className="text-right">{formatRate(row.market)}</TableCell>
+                  <TableCell className="text-right">{formatRate(row.official)}</TableCell>
+                  <TableCell className={`text-right ${spreadClass(row.spread)}`}>
+                    {row.spread === null ? 'N/A' : `${row.spread >= 0 ? '+' : ''}${formatRate(row.spread)}`}
+                    {row.spreadPercent !== null && (
+                      <div className="text-xs">{row.spreadPercent >= 0 ? '+' : ''}{row.spreadPercent.toFixed(2)}%</div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Cross Rates</CardTitle>
+          <CardDescription>Units of the column currency per one unit of the row currency, at market rates</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                {currencies.map(quote => (
+                  <TableHead key={quote} className="text-right">{quote}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {currencies.map(base => (
+                <TableRow key={base}>
+                  <TableCell className="font-medium">{base}</TableCell>
+                  {currencies.map(quote => (
+                    <TableCell key={quote} className={`text-right ${base === quote ? 'text-slate-400' : ''}`}>
+                      {formatRate(fx.matrix[base][quote])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
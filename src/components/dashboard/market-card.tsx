@@ -0,0 +1,130 @@
+'use client'
+
+import type { LucideIcon } from 'lucide-react'
+import { TrendingUp, TrendingDown, Bitcoin, Coins, DollarSign, Clock, Moon } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { formatChange, formatDate, timeAgo } from '@/lib/format'
+import { useDisplayCurrency } from '@/components/dashboard/display-currency'
+import type { PriceTick } from '@/hooks/use-price-stream'
+
+export interface MarketPrice {
+  symbol: string
+  name: string
+  price: number
+  change24h: number | null
+  high24h: number | null
+  low24h: number | null
+  volume: number | null
+  assetClass?: string
+  quoteCurrency?: string
+  decimals?: number
+  // Freshness, set by /api/market/prices
+  source?: 'live' | 'cache'
+  fetchedAt?: string
+  stale?: boolean
+  market?: MarketStatus
+}
+
+// Trading session state of the instrument's venue
+export interface MarketStatus {
+  exchange: string
+  open: boolean
+  lastClose: string | null
+  nextOpen: string | null
+}
+
+interface CardStyle {
+  icon?: LucideIcon
+  accent: string
+}
+
+// Styles for the original assets; anything else falls back to its asset class
+const SYMBOL_STYLES: Record<string, CardStyle> = {
+  SP500: { accent: 'from-blue-500/10' },
+  GOLD: { accent: 'from-amber-500/10' },
+  SILVER: { accent: 'from-slate-400/10' },
+  BTC: { icon: Bitcoin, accent: 'from-orange-500/10' },
+  ETH: { icon: Coins, accent: 'from-purple-500/10' },
+  USDKZT: { icon: DollarSign, accent: 'from-teal-500/10' },
+}
+
+const ASSET_CLASS_STYLES: Record<string, CardStyle> = {
+  index: { accent: 'from-blue-500/10' },
+  commodity: { accent: 'from-amber-500/10' },
+  crypto: { icon: Coins, accent: 'from-orange-500/10' },
+  forex: { icon: DollarSign, accent: 'from-teal-500/10' },
+  equity: { accent: 'from-sky-500/10' },
+}
+
+// `tick` is the latest streamed update; each new one flashes the price
+export function MarketCard({ price, tick }: { price: MarketPrice; tick?: PriceTick }) {
+  const style = SYMBOL_STYLES[price.symbol] || ASSET_CLASS_STYLES[price.assetClass || ''] || { accent: 'from-slate-400/10' }
+  const Icon = style.icon
+  const { formatPrice } = useDisplayCurrency()
+  const flash = tick && tick.previousPrice !== null
+    ? tick.price >= tick.previousPrice ? 'price-flash-up' : 'price-flash-down'
+    : ''
+
+  return (
+    <Card className="relative overflow-hidden">
+      <CardHeader className="pb-2">
+        <CardDescription className="text-xs uppercase tracking-wider flex items-center gap-1">
+          {Icon && <Icon className="w-3 h-3" />} {price.name}
+          {price.stale ? (
+            <Badge variant="outline" className="ml-auto z-10 normal-case tracking-normal border-amber-500 text-amber-600 dark:text-amber-400">
+              Stale
+            </Badge>
+          ) : price.source === 'cache' && (
+            <Badge variant="secondary" className="ml-auto z-10 normal-case tracking-normal">Cached</Badge>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div key={tick?.seq} className={`text-2xl font-bold text-slate-900 dark:text-white rounded ${flash}`}>
+          {formatPrice(price.price || null, price)}
+        </div>
+        {price.change24h !== null && price.change24h !== undefined && (
+          <div className={`flex items-center gap-1 text-sm mt-1 ${
+            price.change24h >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'
+          }`}>
+            {price.change24h >= 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+            {formatChange(price.change24h).text}
+          </div>
+        )}
+        {price.market && !price.market.open ? (
+          <div
+            className="flex items-center gap-1 text-xs mt-2 text-slate-500 dark:text-slate-400"
+            title={price.market.nextOpen ? `${price.market.exchange} opens ${formatDate(price.market.nextOpen)}` : price.market.exchange}
+          >
+            <Moon className="w-3 h-3" />
+            Market closed · last close{price.market.lastClose && ` ${formatDate(price.market.lastClose)}`}
+          </div>
+        ) : price.fetchedAt && (
+          <div
+            className={`flex items-center gap-1 text-xs mt-2 ${price.stale ? 'text-amber-600 dark:text-amber-400' : 'text-slate-500 dark:text-slate-400'}`}
+            title={timeAgo(price.fetchedAt)}
+          >
+            <Clock className="w-3 h-3" />
+            As of {formatDate(price.fetchedAt)}
+          </div>
+        )}
+      </CardContent>
+      <div className={`absolute top-0 right-0 w-16 h-16 bg-gradient-to-br ${style.accent} to-transparent rounded-bl-full`} />
+    </Card>
+  )
+}
+
+export function MarketCardSkeleton() {
+  return (
+    <Card className="relative overflow-hidden">
+      <CardHeader className="pb-2">
+        <Skeleton className="h-3 w-16" />
+      </CardHeader>
+      <CardContent>
+        <Skeleton className="h-8 w-24" />
+      </CardContent>
+    </Card>
+  )
+}
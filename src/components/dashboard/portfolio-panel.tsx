@@ -0,0 +1,309 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Plus, Wallet } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatChange, formatDate, formatMoney } from '@/lib/format'
+import { useDisplayCurrency } from '@/components/dashboard/display-currency'
+
+interface Money {
+  usd: number | null
+  kzt: number | null
+}
+
+interface HoldingRow {
+  symbol: string
+  name: string
+  quantity: number
+  averageCost: number | null
+  price: Money
+  costBasis: Money
+  marketValue: Money
+  unrealizedPnl: Money
+  unrealizedPnlPercent: number | null
+  realizedPnl: Money
+}
+
+interface Valuation {
+  holdings: HoldingRow[]
+  totals: Record<'costBasis' | 'marketValue' | 'unrealizedPnl' | 'realizedPnl', Money>
+  fx: { pair: string; rate: number; updatedAt: string } | null
+}
+
+interface Portfolio {
+  id: string
+  name: string
+}
+
+const TRANSACTION_LABELS: Record<string, string> = {
+  buy: 'Buy',
+  sell: 'Sell',
+  transfer_in: 'Transfer in',
+  transfer_out: 'Transfer out',
+}
+
+function pnlClass(value: number | null): string {
+  if (value === null) return ''
+  return value >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'
+}
+
+// The value in the display currency over its USD amount, or over the
+// tenge amount when USD is the display currency
+function MoneyLines({ value, muted = true }: { value: Money; muted?: boolean }) {
+  const { currency, convert } = useDisplayCurrency()
+  if (currency === 'USD') {
+    return (
+      <>
+        <div>{formatMoney(value.usd, 'USD')}</div>
+        <div className={`text-xs ${muted ? 'text-slate-500' : ''}`}>{formatMoney(value.kzt, 'KZT')}</div>
+      </>
+    )
+  }
+  return (
+    <>
+      <div>{formatMoney(convert(value.usd), currency)}</div>
+      <div className={`text-xs ${muted ? 'text-slate-500' : ''}`}>{formatMoney(value.usd, 'USD')}</div>
+    </>
+  )
+}
+
+function MoneyCell({ value, colored = false }: { value: Money; colored?: boolean }) {
+  return (
+    <TableCell className={`text-right ${colored ? pnlClass(value.usd) : ''}`}>
+      <MoneyLines value={value} />
+    </TableCell>
+  )
+}
+
+export function PortfolioPanel({ instruments }: { instruments: Array<{ symbol: string; name: string }> }) {
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [valuation, setValuation] = useState<Valuation | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [form, setForm] = useState({ type: 'buy', symbol: '', quantity: '', price: '', fee: '' })
+
+  const fetchPortfolios = async (selectId?: string) => {
+    try {
+      const res = await fetch('/api/portfolios')
+      if (res.ok) {
+        const data = await res.json()
+        setPortfolios(data.portfolios || [])
+        setSelectedId(selectId || selectedId || data.portfolios?.[0]?.id || null)
+      }
+    } catch (err) {
+      console.error('Error fetching portfolios:', err)
+    }
+  }
+
+  const fetchValuation = async (id: string) => {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/portfolios/${id}`)
+      if (res.ok) {
+        setValuation(await res.json())
+      }
+    } catch (err) {
+      console.error('Error fetching portfolio valuation:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPortfolios()
+  }, [])
+
+  useEffect(() => {
+    if (selectedId) fetchValuation(selectedId)
+  }, [selectedId])
+
+  const createPortfolio = async () => {
+    if (!newName.trim()) return
+    setError(null)
+    const res = await fetch('/api/portfolios', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: newName }),
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error || 'Failed to create portfolio')
+      return
+    }
+    setNewName('')
+    fetchPortfolios(data.portfolio.id)
+  }
+
+  const recordTransaction = async () => {
+    if (!selectedId || !form.symbol || !form.quantity) return
+    setError(null)
+    const res = await fetch(`/api/portfolios/${selectedId}/transactions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        type: form.type,
+        symbol: form.symbol,
+        quantity: Number(form.quantity),
+        price: form.price ? Number(form.price) : undefined,
+        fee: form.fee ? Number(form.fee) : undefined,
+      }),
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error || 'Failed to record transaction')
+      return
+    }
+    setForm({ ...form, quantity: '', price: '', fee: '' })
+    fetchValuation(selectedId)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="w-5 h-5" />
+              Portfolio
+            </CardTitle>
+            <CardDescription>
+              Holdings valued at current market prices
+              {valuation?.fx && ` · USD/KZT ${valuation.fx.rate.toFixed(2)} as of ${formatDate(valuation.fx.updatedAt)}`}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {portfolios.length > 0 && (
+              <Select value={selectedId || undefined} onValueChange={setSelectedId}>
+                <SelectTrigger size="sm" className="w-40">
+                  <SelectValue placeholder="Select portfolio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {portfolios.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Input
+              className="h-8 w-36"
+              placeholder="New portfolio"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && createPortfolio()}
+            />
+            <Button size="sm" variant="outline" onClick={createPortfolio} disabled={!newName.trim()}>
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!selectedId ? (
+          <div className="text-center py-8 text-slate-500">
+            No portfolios yet. Create one to start tracking holdings.
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+              <Select value={form.type} onValueChange={type => setForm({ ...form, type })}>
+                <SelectTrigger size="sm" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TRANSACTION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={form.symbol || undefined} onValueChange={symbol => setForm({ ...form, symbol })}>
+                <SelectTrigger size="sm" className="w-full">
+                  <SelectValue placeholder="Asset" />
+                </SelectTrigger>
+                <SelectContent>
+                  {instruments.map(i => (
+                    <SelectItem key={i.symbol} value={i.symbol}>{i.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input className="h-8" type="number" placeholder="Quantity" value={form.quantity} onChange={e => setForm({ ...form, quantity: e.target.value })} />
+              <Input className="h-8" type="number" placeholder="Price (USD)" value={form.price} onChange={e => setForm({ ...form, price: e.target.value })} />
+              <Input className="h-8" type="number" placeholder="Fee (USD)" value={form.fee} onChange={e => setForm({ ...form, fee: e.target.value })} />
+              <Button size="sm" onClick={recordTransaction} disabled={!form.symbol || !form.quantity}>
+                Record
+              </Button>
+            </div>
+
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+            {loading && !valuation ? (
+              <Skeleton className="h-40 w-full" />
+            ) : !valuation || valuation.holdings.length === 0 ? (
+              <div className="text-center py-8 text-slate-500">
+                No holdings yet. Record a buy or transfer to get started.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Asset</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Cost basis</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead className="text-right">Unrealized P&L</TableHead>
+                    <TableHead className="text-right">Realized P&L</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {valuation.holdings.map(row => (
+                    <TableRow key={row.symbol}>
+                      <TableCell>
+                        <div className="font-medium">{row.name}</div>
+                        <div className="text-xs text-slate-500">{row.symbol}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{row.quantity.toLocaleString('en-US', { maximumFractionDigits: 8 })}</TableCell>
+                      <MoneyCell value={row.price} />
+                      <MoneyCell value={row.costBasis} />
+                      <MoneyCell value={row.marketValue} />
+                      <TableCell className={`text-right ${pnlClass(row.unrealizedPnl.usd)}`}>
+                        <MoneyLines value={row.unrealizedPnl} muted={false} />
+                        {row.unrealizedPnlPercent !== null && (
+                          <div className="text-xs">{formatChange(row.unrealizedPnlPercent).text}</div>
+                        )}
+                      </TableCell>
+                      <MoneyCell value={row.realizedPnl} colored />
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3}>Total</TableCell>
+                    <MoneyCell value={valuation.totals.costBasis} />
+                    <MoneyCell value={valuation.totals.marketValue} />
+                    <MoneyCell value={valuation.totals.unrealizedPnl} colored />
+                    <MoneyCell value={valuation.totals.realizedPnl} colored />
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,423 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Area, Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts'
+import { CandlestickChart, RotateCcw } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import type { PriceFormat } from '@/lib/format'
+import { INDICATORS } from '@/lib/indicators'
+import type { MarketPrice } from '@/components/dashboard/market-card'
+import { useDisplayCurrency } from '@/components/dashboard/display-currency'
+
+interface Candle {
+  timestamp: string
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+interface ChartPoint extends Candle {
+  time: number
+  range: [number, number]
+  indicator?: Record<string, number | null>
+}
+
+interface IndicatorValues {
+  key: string
+  values: Array<{ timestamp: string } & Record<string, number | null>>
+}
+
+type ChartMode = 'candles' | 'line' | 'area'
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Look-back and the intervals that make sense for each range, default first
+const RANGES: Record<string, { ms: number | null; intervals: string[] }> = {
+  '1D': { ms: DAY, intervals: ['1h'] },
+  '1W': { ms: 7 * DAY, intervals: ['1h', '4h'] },
+  '1M': { ms: 30 * DAY, intervals: ['4h', '12h', '1d'] },
+  '3M': { ms: 90 * DAY, intervals: ['1d', '12h'] },
+  '1Y': { ms: 365 * DAY, intervals: ['1d', '1wk'] },
+  'All': { ms: null, intervals: ['1wk', '1d'] },
+}
+
+// Fewest candles a zoomed view may show
+const MIN_VISIBLE = 10
+
+// Line colours for indicator outputs, in output order
+const INDICATOR_COLORS = ['var(--chart-3)', 'var(--chart-4)', 'var(--chart-5)']
+
+const chartConfig = {
+  close: { label: 'Price', color: 'var(--chart-1)' },
+  volume: { label: 'Volume', color: 'var(--chart-2)' },
+} satisfies ChartConfig
+
+function formatTick(time: number, interval: string): string {
+  const date = new Date(time)
+  if (interval === '1h' || interval === '4h') {
+    return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
+  }
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+function formatVolume(volume: number): string {
+  return volume.toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 2 })
+}
+
+// Wick from high to low with an open/close body, drawn in the Bar's box
+function CandleShape(props: any) {
+  const { x, y, width, height, payload } = props as { x: number; y: number; width: number; height: number; payload: ChartPoint }
+  const { open, close, high, low } = payload
+  const up = close >= open
+  const color = up ? 'rgb(5 150 105)' : 'rgb(220 38 38)'
+  const scale = high === low ? 0 : height / (high - low)
+  const bodyTop = y + (high - Math.max(open, close)) * scale
+  const bodyHeight = Math.max(Math.abs(open - close) * scale, 1)
+  const center = x + width / 2
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} fill={color} />
+    </g>
+  )
+}
+
+function CandleTooltip({ active, payload, format }: any) {
+  const { formatPrice } = useDisplayCurrency()
+  if (!active || !payload?.length) return null
+  const point = payload[0].payload as ChartPoint
+  const rows: Array<[string, string]> = [
+    ['Open', formatPrice(point.open, format)],
+    ['High', formatPrice(point.high, format)],
+    ['Low', formatPrice(point.low, format)],
+    ['Close', formatPrice(point.close, format)],
+    ['Volume', formatVolume(point.volume)],
+    ...Object.entries(point.indicator || {}).map(([output, value]): [string, string] => [
+      output.toUpperCase(),
+      value === null ? '—' : value.toLocaleString('en-US', { maximumFractionDigits: 4 }),
+    ]),
+  ]
+  return (
+    <div className="rounded-lg border bg-background px-3 py-2 text-xs shadow-xl">
+      <div className="mb-1 font-medium">{new Date(point.time).toLocaleString('en-US')}</div>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-4">
+          <span className="text-muted-foreground">{label}</span>
+          <span className="font-mono">{value}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function PriceChart({ instruments }: { instruments: MarketPrice[] }) {
+  const [symbol, setSymbol] = useState('BTC')
+  const [range, setRange] = useState('1W')
+  const [interval, setChartInterval] = useState(RANGES['1W'].intervals[0])
+  const [mode, setMode] = useState<ChartMode>('candles')
+  const [candles, setCandles] = useState<Candle[]>([])
+  const [loadedKey, setLoadedKey] = useState<string | null>(null)
+  const [view, setView] = useState<{ start: number; end: number } | null>(null)
+  const [indicator, setIndicator] = useState('none')
+  const [indicatorValues, setIndicatorValues] = useState<IndicatorValues | null>(null)
+  const dragStart = useRef<{ x: number; start: number; end: number } | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const backfilled = useRef(new Set<string>())
+
+  const requestKey = `${symbol}|${range}|${interval}`
+  const loading = loadedKey !== requestKey
+  const instrument = instruments.find(i => i.symbol === symbol)
+  const format: PriceFormat = instrument || {}
+  const { formatPrice } = useDisplayCurrency()
+  const definition = indicator === 'none' ? null : INDICATORS[indicator]
+  const indicatorKey = `${requestKey}|${indicator}`
+
+  const rangeParams = () => {
+    const to = new Date()
+    const lookBack = RANGES[range].ms
+    const from = lookBack ? new Date(to.getTime() - lookBack) : new Date('2000-01-01T00:00:00Z')
+    return { symbol, interval, from: from.toISOString(), to: to.toISOString() }
+  }
+
+  // Candles come from storage; the provider is asked to fill gaps at most once
+  // per symbol and interval, since closed-market hours are not gaps
+  useEffect(() => {
+    let cancelled = false
+    const params = new URLSearchParams(rangeParams())
+    const load = (query: URLSearchParams) =>
+      fetch(`/api/market/history?${query}`).then(res => (res.ok ? res.json() : { candles: [] }))
+
+    load(params)
+      .then(data => {
+        const key = `${symbol}|${interval}`
+        if (cancelled || !data.gaps?.length || backfilled.current.has(key)) return data
+        backfilled.current.add(key)
+        params.set('backfill', '1')
+        return load(params)
+      })
+      .then(data => {
+        if (cancelled) return
+        setCandles(data.candles || [])
+        setView(null)
+        setLoadedKey(requestKey)
+      })
+      .catch(err => {
+        console.error('Error fetching price history:', err)
+        if (cancelled) return
+        setCandles([])
+        setLoadedKey(requestKey)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [requestKey])
+
+  // Indicators are fetched after candles so backfilled data is included
+  useEffect(() => {
+    if (indicator === 'none' || loading) return
+    const params = new URLSearchParams({ ...rangeParams(), indicator })
+
+    fetch(`/api/market/indicators?${params}`)
+      .then(res => (res.ok ? res.json() : { values: [] }))
+      .then(data => setIndicatorValues({ key: indicatorKey, values: data.values || [] }))
+      .catch(err => console.error('Error fetching indicator:', err))
+  }, [indicatorKey, loading])
+
+  const points: ChartPoint[] = useMemo(() => {
+    const byTime = new Map(
+      indicatorValues?.key === indicatorKey
+        ? indicatorValues.values.map(({ timestamp, ...values }) => [timestamp, values])
+        : []
+    )
+    return candles.map(c => ({
+      ...c,
+      time: new Date(c.timestamp).getTime(),
+      range: [c.low, c.high],
+      indicator: byTime.get(c.timestamp),
+    }))
+  }, [candles, indicatorValues, indicatorKey])
+
+  const start = view?.start ?? 0
+  const end = view?.end ?? points.length - 1
+  const visible = points.slice(start, end + 1)
+  const maxVolume = Math.max(0, ...visible.map(p => p.volume))
+
+  const selectRange = (value: string) => {
+    if (!value) return
+    setRange(value)
+    if (!RANGES[value].intervals.includes(interval)) {
+      setChartInterval(RANGES[value].intervals[0])
+    }
+  }
+
+  // Wheel zooms around the middle of the visible window
+  const handleWheel = (event: React.WheelEvent) => {
+    if (points.length <= MIN_VISIBLE) return
+    const size = end - start + 1
+    const nextSize = Math.min(points.length, Math.max(MIN_VISIBLE, Math.round(size * (event.deltaY > 0 ? 1.2 : 0.8))))
+    const middle = Math.round((start + end) / 2)
+    let nextStart = Math.max(0, middle - Math.floor(nextSize / 2))
+    const nextEnd = Math.min(points.length - 1, nextStart + nextSize - 1)
+    nextStart = Math.max(0, nextEnd - nextSize + 1)
+    setView({ start: nextStart, end: nextEnd })
+  }
+
+  // Dragging pans the zoomed window
+  const handleMouseDown = (event: React.MouseEvent) => {
+    dragStart.current = { x: event.clientX, start, end }
+  }
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    const drag = dragStart.current
+    const width = containerRef.current?.clientWidth
+    if (!drag || !width) return
+    const size = drag.end - drag.start + 1
+    const shift = Math.round(((drag.x - event.clientX) / width) * size)
+    const nextStart = Math.min(Math.max(0, drag.start + shift), points.length - size)
+    setView({ start: nextStart, end: nextStart + size - 1 })
+  }
+
+  const stopDrag = () => {
+    dragStart.current = null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CandlestickChart className="w-5 h-5" />
+              {instrument?.name || symbol} Chart
+            </CardTitle>
+            <CardDescription>
+              Stored candles · scroll to zoom, drag to pan
+              {definition && ` · ${definition.label} (${Object.values(definition.defaults).join(', ') || 'anchored'})`}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={symbol} onValueChange={setSymbol}>
+              <SelectTrigger size="sm" className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {instruments.map(i => (
+                  <SelectItem key={i.symbol} value={i.symbol}>{i.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ToggleGroup type="single" size="sm" variant="outline" value={range} onValueChange={selectRange}>
+              {Object.keys(RANGES).map(r => (
+                <ToggleGroupItem key={r} value={r} className="px-2">{r}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <Select value={interval} onValueChange={setChartInterval}>
+              <SelectTrigger size="sm" className="w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGES[range].intervals.map(i => (
+                  <SelectItem key={i} value={i}>{i}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ToggleGroup type="single" size="sm" variant="outline" value={mode} onValueChange={value => value && setMode(value as ChartMode)}>
+              <ToggleGroupItem value="candles" className="px-2">Candles</ToggleGroupItem>
+              <ToggleGroupItem value="line" className="px-2">Line</ToggleGroupItem>
+              <ToggleGroupItem value="area" className="px-2">Area</ToggleGroupItem>
+            </ToggleGroup>
+            <Select value={indicator} onValueChange={setIndicator}>
+              <SelectTrigger size="sm" className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No indicator</SelectItem>
+                {Object.entries(INDICATORS).map(([value, d]) => (
+                  <SelectItem key={value} value={value}>{d.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {view && (
+              <Button variant="ghost" size="sm" onClick={() => setView(null)}>
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-[360px] w-full" />
+        ) : visible.length === 0 ? (
+          <div className="h-[360px] flex items-center justify-center text-slate-500">
+            No price history stored for this range yet.
+          </div>
+        ) : (
+          <div
+            ref={containerRef}
+            className="select-none cursor-grab active:cursor-grabbing"
+            onWheel={handleWheel}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={stopDrag}
+            onMouseLeave={stopDrag}
+          >
+            <ChartContainer config={chartConfig} className="aspect-auto h-[360px] w-full">
+              <ComposedChart data={visible} syncId="price-chart" margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={32}
+                  tickFormatter={time => formatTick(time, interval)}
+                />
+                <YAxis
+                  yAxisId="price"
+                  orientation="right"
+                  domain={['auto', 'auto']}
+                  tickLine={false}
+                  axisLine={false}
+                  width={80}
+                  tickFormatter={value => formatPrice(value, format)}
+                />
+                {/* Volume uses the bottom quarter of the plot */}
+                <YAxis yAxisId="volume" hide domain={[0, maxVolume * 4 || 1]} />
+                <ChartTooltip
+                  cursor={{ strokeDasharray: '3 3' }}
+                  content={<CandleTooltip format={format} />}
+                />
+                <Bar yAxisId="volume" dataKey="volume" fill="var(--color-volume)" opacity={0.3} isAnimationActive={false} />
+                {mode === 'candles' && (
+                  <Bar yAxisId="price" dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+                )}
+                {mode === 'line' && (
+                  <Line yAxisId="price" dataKey="close" stroke="var(--color-close)" dot={false} strokeWidth={2} isAnimationActive={false} />
+                )}
+                {mode === 'area' && (
+                  <Area yAxisId="price" dataKey="close" stroke="var(--color-close)" fill="var(--color-close)" fillOpacity={0.15} isAnimationActive={false} />
+                )}
+                {definition?.overlay && definition.outputs.map((output, i) => (
+                  <Line
+                    key={output}
+                    yAxisId="price"
+                    dataKey={(p: ChartPoint) => p.indicator?.[output] ?? null}
+                    name={output}
+                    stroke={INDICATOR_COLORS[i % INDICATOR_COLORS.length]}
+                    dot={false}
+                    strokeWidth={1.5}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </ComposedChart>
+            </ChartContainer>
+            {definition && !definition.overlay && (
+              <ChartContainer config={chartConfig} className="aspect-auto h-[120px] w-full mt-2">
+                <ComposedChart data={visible} syncId="price-chart" margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="time" hide />
+                  <YAxis
+                    orientation="right"
+                    domain={['auto', 'auto']}
+                    tickLine={false}
+                    axisLine={false}
+                    width={80}
+                    tickFormatter={value => Number(value).toLocaleString('en-US', { maximumFractionDigits: 2 })}
+                  />
+                  {definition.outputs.map((output, i) =>
+                    output === 'histogram' ? (
+                      <Bar
+                        key={output}
+                        dataKey={(p: ChartPoint) => p.indicator?.[output] ?? null}
+                        fill="var(--color-volume)"
+                        opacity={0.5}
+                        isAnimationActive={false}
+                      />
+                    ) : (
+                      <Line
+                        key={output}
+                        dataKey={(p: ChartPoint) => p.indicator?.[output] ?? null}
+                        stroke={INDICATOR_COLORS[i % INDICATOR_COLORS.length]}
+                        dot={false}
+                        strokeWidth={1.5}
+                        isAnimationActive={false}
+                      />
+                    )
+                  )}
+                </ComposedChart>
+              </ChartContainer>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
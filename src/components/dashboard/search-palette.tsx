@@ -0,0 +1,144 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Search } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { formatDate } from '@/lib/format'
+
+export interface SearchHit {
+  id: string
+  type: 'news' | 'analysis' | 'prediction'
+  title: string
+  // Escaped by /api/search, with matches wrapped in <mark>
+  titleHighlight: string
+  snippet: string
+  url: string | null
+  source: string | null
+  symbol: string | null
+  date: string
+}
+
+const GROUPS: Array<{ type: SearchHit['type']; label: string }> = [
+  { type: 'news', label: 'News' },
+  { type: 'analysis', label: 'Analysis' },
+  { type: 'prediction', label: 'Predictions' },
+]
+
+// Wait for a pause in typing before querying
+const SEARCH_DELAY_MS = 250
+
+const MARK_STYLES = '[&_mark]:bg-amber-200 [&_mark]:text-inherit dark:[&_mark]:bg-amber-500/40 [&_mark]:rounded-sm'
+
+// Header search over stored news, analysis and predictions; ⌘K / Ctrl+K opens it
+export function SearchPalette({ onSelect }: { onSelect: (hit: SearchHit) => void }) {
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SearchHit[]>([])
+  const [loadedQuery, setLoadedQuery] = useState('')
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault()
+        setOpen(o => !o)
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [])
+
+  const q = query.trim()
+
+  useEffect(() => {
+    if (!q) return
+    // Responses for earlier input are dropped
+    let cancelled = false
+    const timer = setTimeout(() => {
+      fetch(`/api/search?${new URLSearchParams({ q, limit: '30' })}`)
+        .then(res => (res.ok ? res.json() : null))
+        .then(data => {
+          if (cancelled) return
+          setResults(data?.results || [])
+          setLoadedQuery(q)
+        })
+        .catch(err => console.error('Error searching:', err))
+    }, SEARCH_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [q])
+
+  const loading = q !== '' && loadedQuery !== q
+  const hits = q && !loading ? results : []
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} className="text-slate-500 dark:text-slate-400">
+        <Search className="w-4 h-4 sm:mr-2" />
+        <span className="hidden sm:inline">Search</span>
+        <kbd className="hidden md:inline ml-3 rounded border px-1.5 text-[10px] font-mono">⌘K</kbd>
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 sm:max-w-2xl">
+          <DialogHeader className="sr-only">
+            <DialogTitle>Search</DialogTitle>
+            <DialogDescription>Search stored news, analysis and predictions</DialogDescription>
+          </DialogHeader>
+          {/* Results are ranked by the server, so cmdk must not filter them */}
+          <Command shouldFilter={false}>
+            <CommandInput value={query} onValueChange={setQuery} placeholder="Search news and analysis..." />
+            <CommandList className="max-h-[60vh]">
+              {q && <CommandEmpty>{loading ? 'Searching...' : `No results for "${q}"`}</CommandEmpty>}
+              {GROUPS.map(group => {
+                const items = hits.filter(hit => hit.type === group.type)
+                if (items.length === 0) return null
+                return (
+                  <CommandGroup key={group.type} heading={group.label}>
+                    {items.map(hit => (
+                      <CommandItem
+                        key={hit.id}
+                        value={hit.id}
+                        onSelect={() => {
+                          setOpen(false)
+                          onSelect(hit)
+                        }}
+                        className="flex-col items-start gap-1"
+                      >
+                        <div
+                          className={`font-medium line-clamp-1 ${MARK_STYLES}`}
+                          dangerouslySetInnerHTML={{ __html: hit.titleHighlight }}
+                        />
+                        {hit.snippet && (
+                          <div
+                            className={`text-xs text-muted-foreground line-clamp-2 ${MARK_STYLES}`}
+                            dangerouslySetInnerHTML={{ __html: hit.snippet }}
+                          />
+                        )}
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          {hit.symbol && <Badge variant="outline" className="text-xs">{hit.symbol}</Badge>}
+                          {hit.source && <span>{hit.source}</span>}
+                          <span>{formatDate(hit.date)}</span>
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )
+              })}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
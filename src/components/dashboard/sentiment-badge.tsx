@@ -0,0 +1,29 @@
+import { Badge } from '@/components/ui/badge'
+
+export interface SentimentFields {
+  sentiment?: string | null
+  sentimentScore?: number | null
+  sentimentConfidence?: number | null
+}
+
+// Sentiment label; the score and confidence show on hover
+export function SentimentBadge({ item, className }: { item: SentimentFields; className?: string }) {
+  if (!item.sentiment) return null
+  const title = item.sentimentScore == null
+    ? undefined
+    : `Score ${item.sentimentScore > 0 ? '+' : ''}${item.sentimentScore.toFixed(2)} · ${Math.round((item.sentimentConfidence ?? 0) * 100)}% confidence`
+
+  return (
+    <Badge
+      variant={
+        item.sentiment === 'bullish' ? 'default' :
+        item.sentiment === 'bearish' ? 'destructive' :
+        'secondary'
+      }
+      title={title}
+      className={`capitalize ${className ?? ''}`}
+    >
+      {item.sentiment}
+    </Badge>
+  )
+}
@@ -0,0 +1,274 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Bar, CartesianGrid, Cell, ComposedChart, Line, XAxis, YAxis } from 'recharts'
+import { Gauge } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import type { PriceFormat } from '@/lib/format'
+import type { MarketPrice } from '@/components/dashboard/market-card'
+import { useDisplayCurrency } from '@/components/dashboard/display-currency'
+
+interface SentimentPoint {
+  timestamp: string
+  score: number
+  confidence: number
+  items: number
+  sources: number
+}
+
+interface ChartPoint {
+  time: number
+  close: number | null
+  score: number | null
+  sources: number | null
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Look-back and step name for each interval
+const INTERVALS: Record<string, { ms: number; unit: string }> = {
+  '1h': { ms: 7 * DAY, unit: 'hour' },
+  '1d': { ms: 90 * DAY, unit: 'day' },
+}
+
+// Shifts tried when looking for a lead or lag, in intervals
+const MAX_LAG = 3
+// Fewest sentiment/return pairs a correlation is computed from
+const MIN_PAIRS = 8
+// Weaker correlations are reported as no relationship
+const MIN_CORRELATION = 0.2
+
+const chartConfig = {
+  score: { label: 'Sentiment', color: 'var(--chart-2)' },
+  close: { label: 'Price', color: 'var(--chart-1)' },
+} satisfies ChartConfig
+
+function pearson(pairs: Array<[number, number]>): number | null {
+  const n = pairs.length
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / n
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / n
+  let cov = 0
+  let varX = 0
+  let varY = 0
+  for (const [x, y] of pairs) {
+    cov += (x - meanX) * (y - meanY)
+    varX += (x - meanX) ** 2
+    varY += (y - meanY) ** 2
+  }
+  return varX === 0 || varY === 0 ? null : cov / Math.sqrt(varX * varY)
+}
+
+// Shift between a bucket's sentiment and the price move of the bucket `lag`
+// intervals later that correlates best. A positive lag means tone moves first.
+function leadLag(points: ChartPoint[]): { lag: number; r: number; pairs: number } | null {
+  const candles = points.filter(p => p.close !== null)
+  // Move into each candle from the one before
+  const returns = candles.map((p, i) => (i > 0 ? p.close! / candles[i - 1].close! - 1 : undefined))
+  let best: { lag: number; r: number; pairs: number } | null = null
+
+  for (let lag = -MAX_LAG; lag <= MAX_LAG; lag++) {
+    const pairs: Array<[number, number]> = []
+    candles.forEach((p, i) => {
+      const move = returns[i + lag]
+      if (p.score !== null && move !== undefined) pairs.push([p.score, move])
+    })
+    if (pairs.length < MIN_PAIRS) continue
+    const r = pearson(pairs)
+    if (r !== null && (!best || Math.abs(r) > Math.abs(best.r))) best = { lag, r, pairs: pairs.length }
+  }
+  return best
+}
+
+function describeLeadLag(result: ReturnType<typeof leadLag>, unit: string): string {
+  if (!result) return 'Not enough overlapping data to compare tone and price yet'
+  if (Math.abs(result.r) < MIN_CORRELATION) return `No clear lead or lag (best r = ${result.r.toFixed(2)})`
+  const steps = `${Math.abs(result.lag)} ${unit}${Math.abs(result.lag) === 1 ? '' : 's'}`
+  const stats = `r = ${result.r.toFixed(2)}, ${result.pairs} points`
+  if (result.lag > 0) return `Tone leads price by ${steps} (${stats})`
+  if (result.lag < 0) return `Tone follows price by ${steps} (${stats})`
+  return `Tone moves with price (${stats})`
+}
+
+function formatTick(time: number, interval: string): string {
+  const date = new Date(time)
+  if (interval === '1h') {
+    return date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit' })
+  }
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+function SentimentTooltip({ active, payload, format }: any) {
+  const { formatPrice } = useDisplayCurrency()
+  if (!active || !payload?.length) return null
+  const point = payload[0].payload as ChartPoint
+  return (
+    <div className="rounded-lg border bg-background px-3 py-2 text-xs shadow-xl">
+      <div className="mb-1 font-medium">{new Date(point.time).toLocaleString('en-US')}</div>
+      <div className="flex justify-between gap-4">
+        <span className="text-muted-foreground">Price</span>
+        <span className="font-mono">{formatPrice(point.close, format)}</span>
+      </div>
+      <div className="flex justify-between gap-4">
+        <span className="text-muted-foreground">Sentiment</span>
+        <span className="font-mono">
+          {point.score === null ? '—' : `${point.score > 0 ? '+' : ''}${point.score.toFixed(2)} (${point.sources} sources)`}
+        </span>
+      </div>
+    </div>
+  )
+}
+
+// Sentiment index bars against the price line, with the best lead/lag found
+export function SentimentChart({ instruments }: { instruments: MarketPrice[] }) {
+  const [symbol, setSymbol] = useState('BTC')
+  const [interval, setChartInterval] = useState('1d')
+  const [sentiment, setSentiment] = useState<SentimentPoint[]>([])
+  const [closes, setCloses] = useState<Array<{ timestamp: string; close: number }>>([])
+  const [loadedKey, setLoadedKey] = useState<string | null>(null)
+  const { formatPrice } = useDisplayCurrency()
+
+  const requestKey = `${symbol}|${interval}`
+  const loading = loadedKey !== requestKey
+  const instrument = instruments.find(i => i.symbol === symbol)
+  const format: PriceFormat = instrument || {}
+
+  useEffect(() => {
+    let cancelled = false
+    const to = new Date()
+    const params = new URLSearchParams({
+      symbol,
+      interval,
+      from: new Date(to.getTime() - INTERVALS[interval].ms).toISOString(),
+      to: to.toISOString(),
+    })
+
+    Promise.all([
+      fetch(`/api/sentiment/history?${params}`).then(res => (res.ok ? res.json() : { points: [] })),
+      fetch(`/api/market/history?${params}`).then(res => (res.ok ? res.json() : { candles: [] })),
+    ])
+      .then(([sentimentData, priceData]) => {
+        if (cancelled) return
+        setSentiment(sentimentData.points || [])
+        setCloses(priceData.candles || [])
+        setLoadedKey(requestKey)
+      })
+      .catch(err => {
+        console.error('Error fetching sentiment history:', err)
+        if (cancelled) return
+        setSentiment([])
+        setCloses([])
+        setLoadedKey(requestKey)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [requestKey])
+
+  const points: ChartPoint[] = useMemo(() => {
+    const byTime = new Map<number, ChartPoint>()
+    for (const c of closes) {
+      const time = new Date(c.timestamp).getTime()
+      byTime.set(time, { time, close: c.close, score: null, sources: null })
+    }
+    for (const s of sentiment) {
+      const time = new Date(s.timestamp).getTime()
+      byTime.set(time, { time, close: byTime.get(time)?.close ?? null, score: s.score, sources: s.sources })
+    }
+    return Array.from(byTime.values()).sort((a, b) => a.time - b.time)
+  }, [closes, sentiment])
+
+  const relation = useMemo(() => describeLeadLag(leadLag(points), INTERVALS[interval].unit), [points, interval])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="w-5 h-5" />
+              Sentiment vs Price
+            </CardTitle>
+            <CardDescription>
+              {loading || sentiment.length === 0 ? 'Headline tone weighted by the sources carrying each story' : relation}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={symbol} onValueChange={setSymbol}>
+              <SelectTrigger size="sm" className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {instruments.map(i => (
+                  <SelectItem key={i.symbol} value={i.symbol}>{i.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ToggleGroup type="single" size="sm" variant="outline" value={interval} onValueChange={value => value && setChartInterval(value)}>
+              {Object.keys(INTERVALS).map(i => (
+                <ToggleGroupItem key={i} value={i} className="px-2">{i}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-[300px] w-full" />
+        ) : sentiment.length === 0 ? (
+          <div className="h-[300px] flex items-center justify-center text-slate-500">
+            No news or analysis mentions {instrument?.name || symbol} in this range yet.
+          </div>
+        ) : (
+          <ChartContainer config={chartConfig} className="aspect-auto h-[300px] w-full">
+            <ComposedChart data={points} margin={{ left: 8, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="time"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+                tickFormatter={time => formatTick(time, interval)}
+              />
+              <YAxis
+                yAxisId="sentiment"
+                domain={[-1, 1]}
+                tickLine={false}
+                axisLine={false}
+                width={40}
+                tickFormatter={value => Number(value).toFixed(1)}
+              />
+              <YAxis
+                yAxisId="price"
+                orientation="right"
+                domain={['auto', 'auto']}
+                tickLine={false}
+                axisLine={false}
+                width={80}
+                tickFormatter={value => formatPrice(value, format)}
+              />
+              <ChartTooltip cursor={{ strokeDasharray: '3 3' }} content={<SentimentTooltip format={format} />} />
+              <Bar yAxisId="sentiment" dataKey="score" isAnimationActive={false}>
+                {points.map(p => (
+                  <Cell key={p.time} fill={(p.score ?? 0) >= 0 ? 'rgb(5 150 105)' : 'rgb(220 38 38)'} fillOpacity={0.6} />
+                ))}
+              </Bar>
+              <Line
+                yAxisId="price"
+                dataKey="close"
+                stroke="var(--color-close)"
+                dot={false}
+                strokeWidth={2}
+                connectNulls
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Activity } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { timeAgo, type PriceFormat } from '@/lib/format'
+import { useDisplayCurrency } from '@/components/dashboard/display-currency'
+
+type Latest = Record<string, Record<string, number | null>>
+
+interface Signals {
+  symbol: string
+  timestamp: string | null
+  close: number | null
+  latest: Latest
+}
+
+type Tone = 'default' | 'destructive' | 'secondary'
+
+function rsiSignal(value: number | null | undefined): { text: string; tone: Tone } | null {
+  if (value === null || value === undefined) return null
+  if (value >= 70) return { text: `Overbought ${value.toFixed(0)}`, tone: 'destructive' }
+  if (value <= 30) return { text: `Oversold ${value.toFixed(0)}`, tone: 'default' }
+  return { text: `Neutral ${value.toFixed(0)}`, tone: 'secondary' }
+}
+
+function macdSignal(histogram: number | null | undefined): { text: string; tone: Tone } | null {
+  if (histogram === null || histogram === undefined) return null
+  return histogram >= 0 ? { text: 'Bullish', tone: 'default' } : { text: 'Bearish', tone: 'destructive' }
+}
+
+// Where the close sits inside the Bollinger Bands, 0% = lower band
+function bandPosition(close: number | null, bands: Record<string, number | null> | undefined): string | null {
+  if (close === null || !bands || bands.upper === null || bands.lower === null || bands.upper === bands.lower) return null
+  return `${(((close - bands.lower) / (bands.upper - bands.lower)) * 100).toFixed(0)}%`
+}
+
+function SignalBadge({ signal }: { signal: { text: string; tone: Tone } | null }) {
+  if (!signal) return <span className="text-slate-400">N/A</span>
+  return <Badge variant={signal.tone}>{signal.text}</Badge>
+}
+
+// Latest indicator readings per instrument, computed from stored hourly candles
+export function SignalsPanel({ instruments }: { instruments: Array<{ symbol: string; name: string } & PriceFormat> }) {
+  const [signals, setSignals] = useState<Signals[] | null>(null)
+  const { formatPrice } = useDisplayCurrency()
+  const symbols = instruments.map(i => i.symbol).join(',')
+
+  useEffect(() => {
+    Promise.all(
+      symbols.split(',').filter(Boolean).map(symbol =>
+        fetch(`/api/market/indicators?symbol=${encodeURIComponent(symbol)}`)
+          .then(res => (res.ok ? res.json() : null))
+          .catch(() => null)
+      )
+    )
+      .then(results => setSignals(results.filter(r => r && r.close !== null)))
+      .catch(err => console.error('Error fetching signals:', err))
+  }, [symbols])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="w-5 h-5" />
+          Technical Signals
+        </CardTitle>
+        <CardDescription>RSI(14), MACD(12, 26, 9), Bollinger(20, 2) and ATR(14) on hourly candles</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!signals ? (
+          <Skeleton className="h-40 w-full" />
+        ) : signals.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">
+            No stored candles yet. Click refresh to collect price history.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Asset</TableHead>
+                <TableHead className="text-right">Close</TableHead>
+                <TableHead>RSI</TableHead>
+                <TableHead>MACD</TableHead>
+                <TableHead className="text-right">Band position</TableHead>
+                <TableHead className="text-right">ATR</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {signals.map(row => {
+                const instrument = instruments.find(i => i.symbol === row.symbol)
+                return (
+                  <TableRow key={row.symbol}>
+                    <TableCell>
+                      <div className="font-medium">{instrument?.name || row.symbol}</div>
+                      {row.timestamp && <div className="text-xs text-slate-500">{timeAgo(row.timestamp)}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">{formatPrice(row.close, instrument)}</TableCell>
+                    <TableCell><SignalBadge signal={rsiSignal(row.latest.rsi?.rsi)} /></TableCell>
+                    <TableCell><SignalBadge signal={macdSignal(row.latest.macd?.histogram)} /></TableCell>
+                    <TableCell className="text-right">{bandPosition(row.close, row.latest.bollinger) || 'N/A'}</TableCell>
+                    <TableCell className="text-right">{formatPrice(row.latest.atr?.atr ?? null, instrument)}</TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,186 @@
+'use client'
+
+import { useState } from 'react'
+import { ArrowDown, ArrowUp, Plus, Settings2, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+
+export interface Watchlist {
+  id: string
+  name: string
+  items: Array<{ id: string; ticker: string; sortOrder: number }>
+}
+
+interface WatchlistManagerProps {
+  watchlist: Watchlist | null
+  onChange: (selectId?: string) => void
+}
+
+// Dialog for creating a watchlist or editing the selected one
+export function WatchlistManager({ watchlist, onChange }: WatchlistManagerProps) {
+  const [open, setOpen] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [newTicker, setNewTicker] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const request = async (url: string, init: RequestInit) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Request failed')
+        return null
+      }
+      return data
+    } catch (err) {
+      console.error('Watchlist request failed:', err)
+      setError('Request failed')
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const createWatchlist = async () => {
+    if (!newName.trim()) return
+    const data = await request('/api/watchlists', {
+      method: 'POST',
+      body: JSON.stringify({ name: newName }),
+    })
+    if (data) {
+      setNewName('')
+      onChange(data.watchlist.id)
+    }
+  }
+
+  const addTicker = async () => {
+    if (!watchlist || !newTicker.trim()) return
+    const data = await request(`/api/watchlists/${watchlist.id}/items`, {
+      method: 'POST',
+      body: JSON.stringify({ ticker: newTicker }),
+    })
+    if (data) {
+      setNewTicker('')
+      onChange()
+    }
+  }
+
+  const removeTicker = async (ticker: string) => {
+    if (!watchlist) return
+    const data = await request(`/api/watchlists/${watchlist.id}/items/${encodeURIComponent(ticker)}`, {
+      method: 'DELETE',
+    })
+    if (data) onChange()
+  }
+
+  const moveTicker = async (index: number, offset: number) => {
+    if (!watchlist) return
+    const tickers = watchlist.items.map(item => item.ticker)
+    const target = index + offset
+    if (target < 0 || target >= tickers.length) return
+    ;[tickers[index], tickers[target]] = [tickers[target], tickers[index]]
+    const data = await request(`/api/watchlists/${watchlist.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ tickers }),
+    })
+    if (data) onChange()
+  }
+
+  const deleteWatchlist = async () => {
+    if (!watchlist) return
+    const data = await request(`/api/watchlists/${watchlist.id}`, { method: 'DELETE' })
+    if (data) onChange('overview')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings2 className="w-4 h-4" />
+          <span className="hidden sm:inline">Watchlists</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Watchlists</DialogTitle>
+          <DialogDescription>Create a watchlist and fill it with any ticker the data provider supports.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="New watchlist name"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && createWatchlist()}
+          />
+          <Button onClick={createWatchlist} disabled={busy || !newName.trim()}>
+            <Plus className="w-4 h-4" /> Create
+          </Button>
+        </div>
+
+        {watchlist && (
+          <div className="space-y-3 border-t pt-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium text-slate-900 dark:text-white">{watchlist.name}</h3>
+              <Button variant="ghost" size="sm" onClick={deleteWatchlist} disabled={busy}>
+                <Trash2 className="w-4 h-4 text-red-600" />
+              </Button>
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="Ticker, e.g. AAPL or SOL-USD"
+                value={newTicker}
+                onChange={e => setNewTicker(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && addTicker()}
+              />
+              <Button onClick={addTicker} disabled={busy || !newTicker.trim()}>
+                <Plus className="w-4 h-4" /> Add
+              </Button>
+            </div>
+
+            {watchlist.items.length === 0 ? (
+              <p className="text-sm text-slate-500">No tickers yet.</p>
+            ) : (
+              <ul className="space-y-1">
+                {watchlist.items.map((item, index) => (
+                  <li key={item.id} className="flex items-center justify-between rounded-md border px-3 py-1.5">
+                    <Badge variant="secondary">{item.ticker}</Badge>
+                    <div className="flex items-center">
+                      <Button variant="ghost" size="icon" onClick={() => moveTicker(index, -1)} disabled={busy || index === 0}>
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => moveTicker(index, 1)} disabled={busy || index === watchlist.items.length - 1}>
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => removeTicker(item.ticker)} disabled={busy}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </DialogContent>
+    </Dialog>
+  )
+}
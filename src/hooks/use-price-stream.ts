@@ -0,0 +1,82 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { io, type Socket } from 'socket.io-client'
+
+export interface PriceTick {
+  symbol: string
+  seq: number
+  price: number
+  previousPrice: number | null
+  change24h: number | null
+  high24h: number | null
+  low24h: number | null
+  volume: number | null
+  timestamp: string
+}
+
+// Live ticks for the given symbols from the price-stream mini-service.
+// Subscriptions follow `symbols`; after a reconnect the service replays the
+// ticks missed since the last one seen.
+export function usePriceStream(symbols: string[]) {
+  const [ticks, setTicks] = useState<Record<string, PriceTick>>({})
+  const [connected, setConnected] = useState(false)
+  const socketRef = useRef<Socket | null>(null)
+  const subscribed = useRef<Set<string>>(new Set())
+  const lastSeq = useRef<Record<string, number>>({})
+
+  const applyTicks = (incoming: PriceTick[]) => {
+    if (incoming.length === 0) return
+    for (const tick of incoming) lastSeq.current[tick.symbol] = tick.seq
+    setTicks(prev => {
+      const next = { ...prev }
+      for (const tick of incoming) next[tick.symbol] = tick
+      return next
+    })
+  }
+
+  useEffect(() => {
+    // Never use PORT in the URL, always use XTransformPort
+    // DO NOT change the path, it is used by Caddy to forward the request to the correct port
+    const socket = io('/?XTransformPort=3003', {
+      transports: ['websocket', 'polling'],
+      reconnection: true,
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 30000,
+      timeout: 10000,
+    })
+    socketRef.current = socket
+
+    socket.on('connect', () => {
+      setConnected(true)
+      // Rooms do not survive a reconnect; rejoin and ask for what was missed
+      if (subscribed.current.size > 0) {
+        socket.emit('subscribe', { symbols: Array.from(subscribed.current), since: lastSeq.current })
+      }
+    })
+    socket.on('disconnect', () => setConnected(false))
+    socket.on('tick', (tick: PriceTick) => applyTicks([tick]))
+    socket.on('backfill', (data: { symbol: string; ticks: PriceTick[] }) => applyTicks(data.ticks))
+
+    return () => {
+      socket.disconnect()
+      socketRef.current = null
+    }
+  }, [])
+
+  const key = Array.from(new Set(symbols)).sort().join(',')
+
+  useEffect(() => {
+    const wanted = new Set(key.split(',').filter(Boolean))
+    const added = Array.from(wanted).filter(s => !subscribed.current.has(s))
+    const removed = Array.from(subscribed.current).filter(s => !wanted.has(s))
+    subscribed.current = wanted
+
+    const socket = socketRef.current
+    if (!socket?.connected) return
+    if (removed.length > 0) socket.emit('unsubscribe', { symbols: removed })
+    if (added.length > 0) socket.emit('subscribe', { symbols: added, since: lastSeq.current })
+  }, [key])
+
+  return { ticks, connected }
+}
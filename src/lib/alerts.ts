@@ -0,0 +1,110 @@
+// Price alert engine
+// Rules are checked against every batch of MarketPrice writes. Triggered
+// rules are recorded as AlertEvent rows and then sleep for their cooldown.
+
+import type { AlertEvent, AlertRule } from '@prisma/client'
+import { db } from '@/lib/db'
+
+export const ALERT_CONDITIONS = ['above', 'below', 'percent_change', 'crosses_above_ma', 'crosses_below_ma'] as const
+export type AlertCondition = typeof ALERT_CONDITIONS[number]
+
+export interface PriceUpdate {
+  symbol: string
+  price: number
+  previousPrice: number | null
+}
+
+// Close of the last hourly candle at or before a point in time
+async function priceAt(symbol: string, time: Date): Promise<number | null> {
+  const candle = await db.priceHistory.findFirst({
+    where: { symbol, interval: '1h', timestamp: { lte: time } },
+    orderBy: { timestamp: 'desc' },
+  })
+  return candle?.close ?? null
+}
+
+// Simple moving average of the last `period` hourly closes
+async function movingAverage(symbol: string, period: number): Promise<number | null> {
+  const candles = await db.priceHistory.findMany({
+    where: { symbol, interval: '1h' },
+    orderBy: { timestamp: 'desc' },
+    take: period,
+  })
+  if (candles.length < period) return null
+  return candles.reduce((sum, c) => sum + c.close, 0) / period
+}
+
+// Returns a message when the rule fires for this update, otherwise null
+async function checkRule(rule: AlertRule, update: PriceUpdate): Promise<string | null> {
+  const { price, previousPrice } = update
+
+  switch (rule.condition as AlertCondition) {
+    case 'above':
+      return rule.threshold !== null && price > rule.threshold
+        ? `${rule.symbol} is above ${rule.threshold} at ${price}`
+        : null
+    case 'below':
+      return rule.threshold !== null && price < rule.threshold
+        ? `${rule.symbol} is below ${rule.threshold} at ${price}`
+        : null
+    case 'percent_change': {
+      if (rule.threshold === null || !rule.windowMinutes) return null
+      const reference = await priceAt(rule.symbol, new Date(Date.now() - rule.windowMinutes * 60 * 1000))
+      if (!reference) return null
+      const change = ((price - reference) / reference) * 100
+      const hit = rule.threshold >= 0 ? change >= rule.threshold : change <= rule.threshold
+      return hit
+        ? `${rule.symbol} moved ${change.toFixed(2)}% in ${rule.windowMinutes} minutes to ${price}`
+        : null
+    }
+    case 'crosses_above_ma':
+    case 'crosses_below_ma': {
+      if (!rule.maPeriod || previousPrice === null) return null
+      const ma = await movingAverage(rule.symbol, rule.maPeriod)
+      if (ma === null) return null
+      const above = rule.condition === 'crosses_above_ma'
+      const crossed = above ? previousPrice <= ma && price > ma : previousPrice >= ma && price < ma
+      return crossed
+        ? `${rule.symbol} crossed ${above ? 'above' : 'below'} its ${rule.maPeriod}h moving average (${ma.toFixed(2)}) at ${price}`
+        : null
+    }
+    default:
+      return null
+  }
+}
+
+// Evaluate active rules for the updated symbols and record triggered events
+export async function evaluateAlerts(updates: PriceUpdate[]): Promise<AlertEvent[]> {
+  if (updates.length === 0) return []
+
+  const rules = await db.alertRule.findMany({
+    where: { active: true, symbol: { in: updates.map(u => u.symbol) } },
+  })
+
+  const now = new Date()
+  const events: AlertEvent[] = []
+
+  for (const rule of rules) {
+    if (rule.lastTriggeredAt && now.getTime() - rule.lastTriggeredAt.getTime() < rule.cooldownMinutes * 60 * 1000) {
+      continue
+    }
+
+    const update = updates.find(u => u.symbol === rule.symbol)!
+    try {
+      const message = await checkRule(rule, update)
+      if (!message) continue
+
+      const [event] = await db.$transaction([
+        db.alertEvent.create({
+          data: { ruleId: rule.id, symbol: rule.symbol, message, price: update.price, triggeredAt: now },
+        }),
+        db.alertRule.update({ where: { id: rule.id }, data: { lastTriggeredAt: now } }),
+      ])
+      events.push(event)
+    } catch (error) {
+      console.error(`Error evaluating alert rule ${rule.id}:`, error)
+    }
+  }
+
+  return events
+}
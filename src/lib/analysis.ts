@@ -0,0 +1,76 @@
+// Analysis writes and reads
+// Analysis and prediction rows are tagged with every asset they mention and
+// scored for sentiment; the most mentioned asset is kept in Analysis.symbol
+// for older consumers.
+
+import type { Analysis } from '@prisma/client'
+import { db } from '@/lib/db'
+import { publishStreamEvents, analysisEvent } from '@/lib/stream-events'
+import { getEntityDictionary, tagEntities } from '@/lib/entity-tagger'
+import { ensureSearchIndex } from '@/lib/search'
+import { scoreSentiment } from '@/lib/sentiment'
+
+export interface AnalysisInput {
+  type: string
+  title: string
+  content: string
+}
+
+// Symbol of analysis that names no known asset
+const UNTAGGED_SYMBOL = 'CRYPTO'
+
+// Insert analysis rows with their asset tags and sentiment, and publish an
+// event for each
+export async function storeAnalysis(items: AnalysisInput[]): Promise<{ created: Analysis[]; failed: number }> {
+  // The search triggers write to analysis_fts, which must exist
+  await ensureSearchIndex()
+  const dictionary = await getEntityDictionary()
+  const created: Analysis[] = []
+  let failed = 0
+
+  for (const item of items) {
+    const text = `${item.title}. ${item.content}`
+    const tags = tagEntities(text, dictionary)
+    const sentiment = scoreSentiment(text)
+    try {
+      created.push(await db.analysis.create({
+        data: {
+          ...item,
+          sentiment: sentiment.label,
+          sentimentScore: sentiment.score,
+          sentimentConfidence: sentiment.confidence,
+          symbol: tags[0]?.symbol ?? UNTAGGED_SYMBOL,
+          symbols: { create: tags },
+        },
+      }))
+    } catch (dbError) {
+      console.error('DB error storing analysis:', dbError)
+      failed++
+    }
+  }
+
+  await publishStreamEvents(created.map(analysisEvent))
+  return { created, failed }
+}
+
+// Latest analysis and predictions, optionally only those mentioning `symbol`
+export async function getAnalysis(options: { limit?: number; symbol?: string } = {}) {
+  const rows = await db.analysis.findMany({
+    where: options.symbol ? { symbols: { some: { symbol: options.symbol } } } : undefined,
+    include: { symbols: { orderBy: { mentions: 'desc' } } },
+    orderBy: { createdAt: 'desc' },
+    take: options.limit ?? 20,
+  })
+  return rows.map(({ symbols, ...row }) => ({
+    id: row.id,
+    symbol: row.symbol,
+    symbols: symbols.map(s => s.symbol),
+    type: row.type,
+    title: row.title,
+    content: row.content,
+    sentiment: row.sentiment,
+    sentimentScore: row.sentimentScore,
+    sentimentConfidence: row.sentimentConfidence,
+    createdAt: row.createdAt.toISOString(),
+  }))
+}
@@ -0,0 +1,170 @@
+// Upstream response cache
+// Keyed by endpoint and params, held in memory and persisted to SQLite so a
+// restart does not send every dashboard straight to the gateway. Concurrent
+// misses for a key share one upstream call; entries past their TTL are served
+// while a single background call refreshes them (stale-while-revalidate), and
+// when that call fails the last value is served instead.
+
+import { db } from '@/lib/db'
+
+export interface CachePolicy {
+  // Served without asking upstream
+  ttlMs: number
+  // Further time the value is served while it is refreshed in the background
+  staleMs: number
+}
+
+interface Entry {
+  value: unknown
+  fetchedAt: number
+  freshUntil: number
+  staleUntil: number
+}
+
+export type CacheStatus = 'hit' | 'stale' | 'miss'
+
+export interface CacheResult<T> {
+  value: T
+  // When the value was loaded from upstream
+  fetchedAt: Date
+  status: CacheStatus
+}
+
+// Entries kept in memory; older ones are still in SQLite
+const MAX_MEMORY_ENTRIES = 500
+
+const globalForCache = globalThis as unknown as {
+  cacheEntries: Map<string, Entry> | undefined
+  cacheInflight: Map<string, Promise<unknown>> | undefined
+}
+
+const memory = globalForCache.cacheEntries ?? new Map<string, Entry>()
+const inflight = globalForCache.cacheInflight ?? new Map<string, Promise<unknown>>()
+globalForCache.cacheEntries = memory
+globalForCache.cacheInflight = inflight
+
+const stats = { hit: 0, stale: 0, miss: 0 }
+
+// Empty results mean a provider failed quietly; never cache those
+function isCacheable(value: unknown): boolean {
+  if (value === null || value === undefined) return false
+  if (Array.isArray(value)) return value.length > 0
+  return true
+}
+
+function remember(key: string, entry: Entry) {
+  // Re-inserting keeps the Map in least-recently-used order
+  memory.delete(key)
+  memory.set(key, entry)
+  if (memory.size > MAX_MEMORY_ENTRIES) {
+    memory.delete(memory.keys().next().value!)
+  }
+}
+
+async function lookup(key: string): Promise<Entry | null> {
+  const held = memory.get(key)
+  if (held) {
+    remember(key, held)
+    return held
+  }
+
+  try {
+    const row = await db.cacheEntry.findUnique({ where: { key } })
+    if (!row) return null
+    const entry = {
+      value: JSON.parse(row.value),
+      fetchedAt: row.updatedAt.getTime(),
+      freshUntil: row.freshUntil.getTime(),
+      staleUntil: row.staleUntil.getTime(),
+    }
+    remember(key, entry)
+    return entry
+  } catch (error) {
+    console.error(`Error reading cache entry ${key}:`, error)
+    return null
+  }
+}
+
+async function store(key: string, value: unknown, policy: CachePolicy) {
+  const now = Date.now()
+  const entry = { value, fetchedAt: now, freshUntil: now + policy.ttlMs, staleUntil: now + policy.ttlMs + policy.staleMs }
+  remember(key, entry)
+
+  try {
+    const data = {
+      value: JSON.stringify(value),
+      freshUntil: new Date(entry.freshUntil),
+      staleUntil: new Date(entry.staleUntil),
+    }
+    await db.cacheEntry.upsert({ where: { key }, update: data, create: { key, ...data } })
+  } catch (error) {
+    console.error(`Error persisting cache entry ${key}:`, error)
+  }
+}
+
+// One upstream call per key at a time; callers arriving meanwhile share it
+function load<T>(key: string, policy: CachePolicy, loader: () => Promise<T>): Promise<T> {
+  const pending = inflight.get(key)
+  if (pending) return pending as Promise<T>
+
+  const promise = loader()
+    .then(async value => {
+      if (isCacheable(value)) await store(key, value, policy)
+      return value
+    })
+    .finally(() => inflight.delete(key))
+  inflight.set(key, promise)
+  return promise
+}
+
+// Get `key` from the cache, calling `loader` on a miss or to revalidate.
+// Failed or empty loads fall back to whatever value is stored, however old.
+export async function cachedWithMeta<T>(key: string, policy: CachePolicy, loader: () => Promise<T>): Promise<CacheResult<T>> {
+  const entry = await lookup(key)
+  const now = Date.now()
+  const fromEntry = (e: Entry, status: CacheStatus) => ({ value: e.value as T, fetchedAt: new Date(e.fetchedAt), status })
+
+  if (entry && now < entry.freshUntil) {
+    stats.hit++
+    return fromEntry(entry, 'hit')
+  }
+
+  if (entry && now < entry.staleUntil) {
+    stats.stale++
+    load(key, policy, loader).catch(error => {
+      console.error(`Error revalidating ${key}:`, error)
+    })
+    return fromEntry(entry, 'stale')
+  }
+
+  stats.miss++
+  try {
+    const value = await load(key, policy, loader)
+    if (!isCacheable(value) && entry) return fromEntry(entry, 'stale')
+    return { value, fetchedAt: new Date(), status: 'miss' }
+  } catch (error) {
+    if (entry) {
+      console.warn(`Serving expired ${key} after failed load:`, error instanceof Error ? error.message : error)
+      return fromEntry(entry, 'stale')
+    }
+    throw error
+  }
+}
+
+export async function cached<T>(key: string, policy: CachePolicy, loader: () => Promise<T>): Promise<T> {
+  return (await cachedWithMeta(key, policy, loader)).value
+}
+
+export function getCacheStats() {
+  return { ...stats, entries: memory.size, inflight: inflight.size }
+}
+
+// Delete persisted entries too old to serve even as stale
+export async function pruneCache(): Promise<number> {
+  const now = Date.now()
+  for (const [key, entry] of memory) {
+    if (entry.staleUntil < now) memory.delete(key)
+  }
+  const { count } = await db.cacheEntry.deleteMany({ where: { staleUntil: { lt: new Date(now) } } })
+  return count
+}
@@ -0,0 +1,245 @@
+// OHLCV candle storage
+// Candles are keyed on (symbol, interval, timestamp) with the timestamp aligned
+// to the start of its interval in UTC, so repeated fetches update rather than
+// duplicate. Daily and weekly candles can also be derived from hourly ones.
+
+import type { PriceHistory } from '@prisma/client'
+import { db } from '@/lib/db'
+import type { HistoryData } from '@/lib/finance-api'
+import { tradingSessions, type Exchange } from '@/lib/market-calendar'
+
+export const CANDLE_INTERVALS = ['1h', '1d', '1wk'] as const
+export type CandleInterval = typeof CANDLE_INTERVALS[number]
+
+// Intervals that can be served by resampling stored candles
+export const RESAMPLE_INTERVALS = ['1h', '4h', '12h', '1d', '1wk'] as const
+export type ResampleInterval = typeof RESAMPLE_INTERVALS[number]
+
+export const INTERVAL_MS: Record<ResampleInterval, number> = {
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '12h': 12 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1wk': 7 * 24 * 60 * 60 * 1000,
+}
+
+// Stored intervals each requested interval can be built from, preferred first
+export const SOURCE_INTERVALS: Record<ResampleInterval, CandleInterval[]> = {
+  '1h': ['1h'],
+  '4h': ['1h'],
+  '12h': ['1h'],
+  '1d': ['1d', '1h'],
+  '1wk': ['1wk', '1d', '1h'],
+}
+
+// How many candles each refresh asks the provider for
+export const HISTORY_LIMITS: Record<CandleInterval, number> = {
+  '1h': 48,
+  '1d': 30,
+  '1wk': 12,
+}
+
+export interface CandleWriteResult {
+  inserted: number
+  updated: number
+  skipped: number
+}
+
+// Start of the interval containing `time`; weeks start on Monday
+export function alignToInterval(time: Date | number, interval: ResampleInterval): Date {
+  const ms = typeof time === 'number' ? time : time.getTime()
+  if (interval === '1wk') {
+    const day = Math.floor(ms / INTERVAL_MS['1d']) * INTERVAL_MS['1d']
+    const weekday = (new Date(day).getUTCDay() + 6) % 7
+    return new Date(day - weekday * INTERVAL_MS['1d'])
+  }
+  return new Date(Math.floor(ms / INTERVAL_MS[interval]) * INTERVAL_MS[interval])
+}
+
+function isValidCandle(candle: HistoryData): boolean {
+  return [candle.open, candle.high, candle.low, candle.close].every(v => Number.isFinite(v) && v > 0)
+}
+
+// Insert or update candles from a provider; rollup candles are replaced,
+// provider candles are refreshed in place
+export async function upsertCandles(
+  symbol: string,
+  interval: CandleInterval,
+  candles: HistoryData[],
+  source: 'provider' | 'rollup' = 'provider'
+): Promise<CandleWriteResult> {
+  const result: CandleWriteResult = { inserted: 0, updated: 0, skipped: 0 }
+
+  const rows = new Map<number, HistoryData>()
+  for (const candle of candles) {
+    if (!isValidCandle(candle)) {
+      result.skipped++
+      continue
+    }
+    // Provider timestamps are in seconds
+    const time = alignToInterval(candle.timestamp * 1000, interval).getTime()
+    rows.set(time, candle)
+  }
+  if (rows.size === 0) return result
+
+  const existing = new Map(
+    (await db.priceHistory.findMany({
+      where: { symbol, interval, timestamp: { in: Array.from(rows.keys()).map(t => new Date(t)) } },
+    })).map(row => [row.timestamp.getTime(), row])
+  )
+
+  for (const [time, candle] of rows) {
+    const current = existing.get(time)
+    // Never let a derived candle overwrite one the provider gave us
+    if (current && source === 'rollup' && current.source === 'provider') {
+      result.skipped++
+      continue
+    }
+
+    const data = {
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume ?? null,
+      source,
+    }
+    const timestamp = new Date(time)
+    await db.priceHistory.upsert({
+      where: { symbol_interval_timestamp: { symbol, interval, timestamp } },
+      update: data,
+      create: { symbol, interval, timestamp, ...data },
+    })
+    if (current) result.updated++
+    else result.inserted++
+  }
+
+  return result
+}
+
+// Merge consecutive candles into one spanning all of them
+function mergeCandles(candles: PriceHistory[], timestamp: Date): HistoryData {
+  return {
+    timestamp: Math.floor(timestamp.getTime() / 1000),
+    open: candles[0].open,
+    high: Math.max(...candles.map(c => c.high)),
+    low: Math.min(...candles.map(c => c.low)),
+    close: candles[candles.length - 1].close,
+    volume: candles.reduce((sum, c) => sum + (c.volume || 0), 0),
+  }
+}
+
+// Group candles (sorted ascending) into buckets of a coarser interval
+export function resampleCandles<T extends PriceHistory>(candles: T[], interval: ResampleInterval): HistoryData[] {
+  const buckets = new Map<number, T[]>()
+  for (const candle of candles) {
+    const key = alignToInterval(candle.timestamp, interval).getTime()
+    const bucket = buckets.get(key) || []
+    bucket.push(candle)
+    buckets.set(key, bucket)
+  }
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([key, bucket]) => mergeCandles(bucket, new Date(key)))
+}
+
+// Derive daily and weekly candles from stored hourly data since `from`
+export async function rollupCandles(symbol: string, from: Date): Promise<Record<'1d' | '1wk', CandleWriteResult>> {
+  const weekStart = alignToInterval(from, '1wk')
+  const hourly = await db.priceHistory.findMany({
+    where: { symbol, interval: '1h', timestamp: { gte: weekStart } },
+    orderBy: { timestamp: 'asc' },
+  })
+
+  return {
+    '1d': await upsertCandles(symbol, '1d', resampleCandles(hourly, '1d'), 'rollup'),
+    '1wk': await upsertCandles(symbol, '1wk', resampleCandles(hourly, '1wk'), 'rollup'),
+  }
+}
+
+// Load candles for a range at the requested interval, from the coarsest stored
+// interval that has data, resampling when the stored interval is finer
+export async function loadCandles(
+  symbol: string,
+  interval: ResampleInterval,
+  from: Date,
+  to: Date
+): Promise<{ sourceInterval: CandleInterval; candles: HistoryData[] }> {
+  const sources = SOURCE_INTERVALS[interval]
+  const start = alignToInterval(from, interval)
+
+  for (const sourceInterval of sources) {
+    const rows = await db.priceHistory.findMany({
+      where: { symbol, interval: sourceInterval, timestamp: { gte: start, lte: to } },
+      orderBy: { timestamp: 'asc' },
+    })
+    if (rows.length === 0) continue
+
+    const candles = sourceInterval === interval
+      ? rows.map(row => ({
+          timestamp: Math.floor(row.timestamp.getTime() / 1000),
+          open: row.open,
+          high: row.high,
+          low: row.low,
+          close: row.close,
+          volume: row.volume ?? 0,
+        }))
+      : resampleCandles(rows, interval)
+    return { sourceInterval, candles }
+  }
+
+  return { sourceInterval: sources[sources.length - 1], candles: [] }
+}
+
+export interface CandleGap {
+  from: string
+  to: string
+  missing: number
+}
+
+// Runs of expected candle slots with no data between `from` and `to`. With an
+// exchange, slots that fall entirely outside its trading sessions (nights,
+// weekends, holidays) are not expected, and a run carries on across them.
+export function findGaps(
+  candles: HistoryData[],
+  interval: ResampleInterval,
+  from: Date,
+  to: Date,
+  exchange?: Exchange
+): CandleGap[] {
+  const step = INTERVAL_MS[interval]
+  const present = new Set(candles.map(c => c.timestamp * 1000))
+  const gaps: CandleGap[] = []
+  let gapStart: number | null = null
+  let gapEnd = 0
+  let missing = 0
+
+  const first = alignToInterval(from, interval).getTime()
+  const end = alignToInterval(to, interval).getTime()
+  const sessions = exchange ? tradingSessions(exchange, new Date(first), new Date(end + step)) : null
+  let session = 0
+  // Sessions are in order, so the ones ending before a slot are never needed again
+  const expected = (t: number) => {
+    if (!sessions) return true
+    while (session < sessions.length && sessions[session][1] <= t) session++
+    return session < sessions.length && sessions[session][0] < t + step
+  }
+
+  for (let t = first; t <= end; t += step) {
+    if (present.has(t)) {
+      if (gapStart !== null) {
+        gaps.push({ from: new Date(gapStart).toISOString(), to: new Date(gapEnd).toISOString(), missing })
+        gapStart = null
+        missing = 0
+      }
+    } else if (expected(t)) {
+      if (gapStart === null) gapStart = t
+      gapEnd = t
+      missing++
+    }
+  }
+  if (gapStart !== null) {
+    gaps.push({ from: new Date(gapStart).toISOString(), to: new Date(gapEnd).toISOString(), missing })
+  }
+  return gaps
+}
@@ -0,0 +1,96 @@
+/// <reference types="bun-types" />
+
+import { describe, expect, test } from 'bun:test'
+import { isValidCron, nextCronTime, parseCron } from '@/lib/cron'
+
+const next = (expression: string, after: string) => nextCronTime(expression, new Date(after)).toISOString()
+
+describe('parseCron', () => {
+  test('expands lists, ranges and steps', () => {
+    const schedule = parseCron('0,30 9-17/4 */10 1-3 *')
+    expect(Array.from(schedule.minutes)).toEqual([0, 30])
+    expect(Array.from(schedule.hours)).toEqual([9, 13, 17])
+    expect(Array.from(schedule.days)).toEqual([1, 11, 21, 31])
+    expect(Array.from(schedule.months)).toEqual([1, 2, 3])
+    expect(schedule.anyDay).toBe(false)
+    expect(schedule.anyWeekday).toBe(true)
+  })
+
+  test('a single value with a step runs to the end of the field', () => {
+    expect(Array.from(parseCron('45/5 * * * *').minutes)).toEqual([45, 50, 55])
+  })
+
+  test('7 is Sunday as well as 0', () => {
+    expect(parseCron('0 0 * * 7').weekdays.has(0)).toBe(true)
+  })
+
+  test.each([
+    ['', 'empty expression'],
+    ['* * * *', 'four fields'],
+    ['* * * * * *', 'six fields'],
+    ['-5 * * * *', 'range without a start'],
+    ['1- * * * *', 'range without an end'],
+    ['1-2-3 * * * *', 'range with three ends'],
+    ['1,,2 * * * *', 'empty list item'],
+    ['1, * * * *', 'trailing comma'],
+    ['*/ * * * *', 'empty step'],
+    ['*/0 * * * *', 'zero step'],
+    ['*/2/3 * * * *', 'two steps'],
+    ['/5 * * * *', 'step without a range'],
+    ['a * * * *', 'word'],
+    ['1.5 * * * *', 'fraction'],
+    ['60 * * * *', 'minute past 59'],
+    ['* 24 * * *', 'hour past 23'],
+    ['* * 0 * *', 'day 0'],
+    ['* * * 13 *', 'month 13'],
+    ['* * * * 8', 'weekday 8'],
+    ['5-1 * * * *', 'reversed range'],
+  ])('rejects %p (%s)', expression => {
+    expect(() => parseCron(expression)).toThrow()
+    expect(isValidCron(expression)).toBe(false)
+  })
+})
+
+describe('nextCronTime', () => {
+  test('every minute runs at the start of the next minute', () => {
+    expect(next('* * * * *', '2026-10-19T10:00:30Z')).toBe('2026-10-19T10:01:00.000Z')
+    expect(next('* * * * *', '2026-10-19T10:00:00Z')).toBe('2026-10-19T10:01:00.000Z')
+  })
+
+  test('steps roll over into the next hour', () => {
+    expect(next('*/15 * * * *', '2026-10-19T10:07:00Z')).toBe('2026-10-19T10:15:00.000Z')
+    expect(next('*/15 * * * *', '2026-10-19T10:45:00Z')).toBe('2026-10-19T11:00:00.000Z')
+  })
+
+  test('hourly and daily schedules', () => {
+    expect(next('0 * * * *', '2026-10-19T10:00:00Z')).toBe('2026-10-19T11:00:00.000Z')
+    expect(next('0 */6 * * *', '2026-10-19T13:00:00Z')).toBe('2026-10-19T18:00:00.000Z')
+    expect(next('30 2 * * *', '2026-12-31T03:00:00Z')).toBe('2027-01-01T02:30:00.000Z')
+  })
+
+  test('weekday schedules skip the weekend', () => {
+    // 2026-10-16 is a Friday
+    expect(next('0 9 * * 1-5', '2026-10-16T10:00:00Z')).toBe('2026-10-19T09:00:00.000Z')
+    expect(next('30 6 * * 7', '2026-10-16T00:00:00Z')).toBe('2026-10-18T06:30:00.000Z')
+  })
+
+  test('a restricted day of month or weekday alone must match', () => {
+    expect(next('0 0 13 * *', '2026-10-01T00:00:00Z')).toBe('2026-10-13T00:00:00.000Z')
+    expect(next('0 0 * * 5', '2026-10-02T00:00:00Z')).toBe('2026-10-09T00:00:00.000Z')
+  })
+
+  test('with both day fields restricted either one matches', () => {
+    // Fridays and the 13th: Friday 2, Friday 9, Tuesday 13
+    expect(next('0 0 13 * 5', '2026-10-01T00:00:00Z')).toBe('2026-10-02T00:00:00.000Z')
+    expect(next('0 0 13 * 5', '2026-10-02T00:00:00Z')).toBe('2026-10-09T00:00:00.000Z')
+    expect(next('0 0 13 * 5', '2026-10-09T00:00:00Z')).toBe('2026-10-13T00:00:00.000Z')
+  })
+
+  test('finds the next leap day', () => {
+    expect(next('0 0 29 2 *', '2026-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z')
+  })
+
+  test('throws for a date that never occurs', () => {
+    expect(() => nextCronTime('0 0 31 2 *', new Date('2026-10-19T00:00:00Z'))).toThrow('never matches')
+  })
+})
@@ -0,0 +1,138 @@
+// Cron expressions
+// Standard five fields (minute hour day-of-month month day-of-week), evaluated
+// in UTC. Fields accept *, lists (1,15), ranges (1-5) and steps (*/15, 0-30/10).
+
+interface CronField {
+  min: number
+  max: number
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 7 }, // day of week, 0 and 7 are Sunday
+]
+
+export interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  days: Set<number>
+  months: Set<number>
+  weekdays: Set<number>
+  // Cron matches either day field when both are restricted
+  anyDay: boolean
+  anyWeekday: boolean
+}
+
+// Digits only; Number() would read an empty part as 0
+function parseNumber(text: string, part: string): number {
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`Invalid number "${text}" in "${part}"`)
+  }
+  return Number(text)
+}
+
+function parseField(value: string, field: CronField): Set<number> {
+  const values = new Set<number>()
+  for (const part of value.split(',')) {
+    const pieces = part.split('/')
+    if (pieces.length > 2) {
+      throw new Error(`Invalid step in "${part}"`)
+    }
+    const [range, stepText] = pieces
+    const step = stepText === undefined ? 1 : parseNumber(stepText, part)
+    if (step < 1) {
+      throw new Error(`Invalid step in "${part}"`)
+    }
+
+    let start = field.min
+    let end = field.max
+    if (range !== '*') {
+      const bounds = range.split('-')
+      if (bounds.length > 2) {
+        throw new Error(`Invalid range in "${part}"`)
+      }
+      start = parseNumber(bounds[0], part)
+      end = bounds.length === 2 ? parseNumber(bounds[1], part) : stepText === undefined ? start : field.max
+    }
+    if (start < field.min || end > field.max || start > end) {
+      throw new Error(`Value out of range in "${part}"`)
+    }
+    for (let v = start; v <= end; v += step) values.add(v)
+  }
+  return values
+}
+
+// Parse an expression; throws with a readable message when invalid
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/)
+  if (parts.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day month weekday')
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, FIELDS[i]))
+  if (weekdays.has(7)) weekdays.add(0)
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: parts[2] === '*',
+    anyWeekday: parts[4] === '*',
+  }
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const day = schedule.days.has(date.getUTCDate())
+  const weekday = schedule.weekdays.has(date.getUTCDay())
+  if (schedule.anyDay && schedule.anyWeekday) return true
+  if (schedule.anyDay) return weekday
+  if (schedule.anyWeekday) return day
+  return day || weekday
+}
+
+// First matching minute strictly after `after`
+export function nextCronTime(expression: string, after: Date = new Date()): Date {
+  const schedule = parseCron(expression)
+  const time = new Date(after.getTime())
+  time.setUTCSeconds(0, 0)
+  time.setUTCMinutes(time.getUTCMinutes() + 1)
+
+  // Four years covers every combination, including Feb 29
+  const limit = after.getTime() + 4 * 366 * 24 * 60 * 60 * 1000
+  while (time.getTime() <= limit) {
+    if (!schedule.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1)
+      time.setUTCHours(0, 0)
+      continue
+    }
+    if (!matchesDay(schedule, time)) {
+      time.setUTCDate(time.getUTCDate() + 1)
+      time.setUTCHours(0, 0)
+      continue
+    }
+    if (!schedule.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0)
+      continue
+    }
+    if (!schedule.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1)
+      continue
+    }
+    return time
+  }
+  throw new Error(`Cron expression "${expression}" never matches`)
+}
@@ -0,0 +1,119 @@
+// Entity tagger
+// Finds the assets a news article or analysis mentions. Every registered
+// instrument contributes its symbol, provider ticker and name; built-in aliases
+// add common names, cashtags and misspellings. Aliases match on word
+// boundaries, and short uppercase tickers only in uppercase, so "ethics" is
+// not ETH and the Spanish "sol" is not Solana.
+
+import { getInstruments } from '@/lib/instruments'
+
+// Extra names per symbol, including assets that are not registered instruments.
+// Lowercase entries match in any case; uppercase short tickers only as written.
+const ALIASES: Record<string, string[]> = {
+  BTC: ['bitcoin', 'bitcoins', 'btc', 'xbt', 'bitcon', 'bitcoing', 'bitocin', 'bticoin', 'bit coin'],
+  ETH: ['ethereum', 'ether', 'eth', 'etherium', 'etherum', 'ethereun'],
+  SOL: ['solana', 'SOL'],
+  XRP: ['xrp', 'ripple'],
+  BNB: ['bnb', 'binance coin'],
+  DOGE: ['dogecoin', 'doge'],
+  ADA: ['cardano', 'ADA'],
+  GOLD: ['gold', 'xau', 'bullion', 'comex gold'],
+  SILVER: ['silver', 'xag'],
+  SP500: ['s&p 500', 's&p500', 's&p', 'sp500', 'spx', 'standard & poor\'s', 'standard and poor\'s'],
+  USDKZT: ['tenge', 'kzt', 'usd/kzt', 'usdkzt'],
+}
+
+// Uppercase tickers this short are ordinary words in lowercase
+const CASE_SENSITIVE_MAX_LENGTH = 4
+
+export interface EntityTag {
+  symbol: string
+  mentions: number
+}
+
+interface Pattern {
+  regex: RegExp
+  symbols: Map<string, string>
+}
+
+export interface EntityDictionary {
+  // Case-insensitive aliases, and short tickers that must match exactly
+  insensitive: Pattern
+  sensitive: Pattern
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function buildPattern(aliases: Map<string, string>, flags: string): Pattern {
+  // Longest first, so "s&p 500" wins over "s&p"
+  const alternatives = Array.from(aliases.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegex)
+  return {
+    regex: new RegExp(`(?<![\\p{L}\\p{N}])\\$?(?:${alternatives.join('|') || '(?!)'})(?![\\p{L}\\p{N}])`, flags),
+    symbols: aliases,
+  }
+}
+
+export function buildEntityDictionary(instruments: Array<{ symbol: string; providerTicker: string; name: string }>): EntityDictionary {
+  const entries: Array<[string, string]> = Object.entries(ALIASES).flatMap(([symbol, aliases]) =>
+    aliases.map((alias): [string, string] => [alias, symbol])
+  )
+  for (const instrument of instruments) {
+    entries.push([instrument.symbol, instrument.symbol])
+    entries.push([instrument.providerTicker.replace(/^\^/, ''), instrument.symbol])
+    entries.push([instrument.name, instrument.symbol])
+  }
+
+  const insensitive = new Map<string, string>()
+  const sensitive = new Map<string, string>()
+  for (const [alias, symbol] of entries) {
+    const isShortTicker = /^[A-Z]+$/.test(alias) && alias.length <= CASE_SENSITIVE_MAX_LENGTH
+    if (isShortTicker) sensitive.set(alias, symbol)
+    else if (!insensitive.has(alias.toLowerCase())) insensitive.set(alias.toLowerCase(), symbol)
+  }
+
+  return {
+    insensitive: buildPattern(insensitive, 'giu'),
+    sensitive: buildPattern(sensitive, 'gu'),
+  }
+}
+
+// Dictionary over every registered instrument, enabled or not
+export async function getEntityDictionary(): Promise<EntityDictionary> {
+  return buildEntityDictionary(await getInstruments({ includeDisabled: true }))
+}
+
+// Assets mentioned in `text`, most mentioned first (ties by first mention)
+export function tagEntities(text: string, dictionary: EntityDictionary): EntityTag[] {
+  const found = new Map<string, { mentions: number; first: number }>()
+  const record = (symbol: string, index: number) => {
+    const entry = found.get(symbol)
+    if (entry) {
+      entry.mentions++
+      entry.first = Math.min(entry.first, index)
+    } else {
+      found.set(symbol, { mentions: 1, first: index })
+    }
+  }
+
+  // Text already matched case-insensitively ("$ETH", "BTC-USD") is not counted again
+  const covered: Array<[number, number]> = []
+  for (const match of text.matchAll(dictionary.insensitive.regex)) {
+    const symbol = dictionary.insensitive.symbols.get(match[0].replace(/^\$/, '').toLowerCase())
+    if (!symbol) continue
+    record(symbol, match.index)
+    covered.push([match.index, match.index + match[0].length])
+  }
+  for (const match of text.matchAll(dictionary.sensitive.regex)) {
+    const symbol = dictionary.sensitive.symbols.get(match[0].replace(/^\$/, ''))
+    if (!symbol || covered.some(([start, end]) => match.index >= start && match.index < end)) continue
+    record(symbol, match.index)
+  }
+
+  return Array.from(found.entries())
+    .sort(([, a], [, b]) => b.mentions - a.mentions || a.first - b.first)
+    .map(([symbol, { mentions }]) => ({ symbol, mentions }))
+}
@@ -1,159 +1,86 @@
 // Finance API client for fetching market data
-// Uses the Finance API via gateway
+// Delegates to the market data providers configured per asset class
+// (see src/lib/providers)
 
-const GATEWAY_URL = process.env.GATEWAY_URL || 'https://internal-api.z.ai';
-const API_PREFIX = process.env.API_PREFIX || '/external/finance';
+import { marketData } from '@/lib/providers';
+import { getInstruments, byProviderTicker } from '@/lib/instruments';
+import { cached, cachedWithMeta, type CachePolicy, type CacheResult } from '@/lib/cache';
+import { screenQuotes } from '@/lib/quote-validation';
+import type { QuoteResponse, HistoryData, NewsItem, SymbolMatch } from '@/lib/providers';
 
-interface QuoteResponse {
-  ticker: string;
-  name: string;
-  price: number;
-  change: number;
-  changePercent: number;
-  high: number;
-  low: number;
-  open: number;
-  volume: number;
-  marketCap?: number;
-}
+export type { QuoteResponse, HistoryData, NewsItem, SymbolMatch } from '@/lib/providers';
 
-interface HistoryData {
-  timestamp: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
 
-interface NewsItem {
-  title: string;
-  summary: string;
-  source: string;
-  url: string;
-  publishedAt: string;
-}
-
-async function fetchFinanceAPI(endpoint: string) {
-  const url = `${GATEWAY_URL}${API_PREFIX}${endpoint}`;
-  
-  const response = await fetch(url, {
-    headers: {
-      'X-Z-AI-From': 'Z',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Finance API error: ${response.status}`);
-  }
-
-  return response.json();
-}
+// How long each endpoint's responses are served from cache (src/lib/cache.ts)
+const CACHE_POLICIES: Record<string, CachePolicy> = {
+  quote: { ttlMs: 15 * 1000, staleMs: 5 * MINUTE },
+  'history:1h': { ttlMs: 5 * MINUTE, staleMs: 6 * HOUR },
+  history: { ttlMs: HOUR, staleMs: 24 * HOUR },
+  news: { ttlMs: 5 * MINUTE, staleMs: HOUR },
+  search: { ttlMs: 24 * HOUR, staleMs: 7 * 24 * HOUR },
+};
 
-// Parse the API response body to extract quote data
-function parseQuoteData(data: any): QuoteResponse {
-  return {
-    ticker: data.symbol || '',
-    name: data.shortName || data.longName || data.symbol || '',
-    price: data.regularMarketPrice || data.price || 0,
-    change: data.regularMarketChange || data.change || 0,
-    changePercent: data.regularMarketChangePercent || data.changePercent || 0,
-    high: data.regularMarketDayHigh || data.high || 0,
-    low: data.regularMarketDayLow || data.low || 0,
-    open: data.regularMarketOpen || data.open || 0,
-    volume: data.regularMarketVolume || data.volume || 0,
-    marketCap: data.marketCap || undefined,
-  };
-}
+// Quotes are screened (src/lib/quote-validation.ts) before they are cached,
+// so rejected ones never reach callers
 
 // Get real-time quote for a single stock
 export async function getQuote(ticker: string, type: string = 'STOCKS'): Promise<QuoteResponse | null> {
-  try {
-    const data = await fetchFinanceAPI(`/v1/markets/quote?ticker=${ticker}&type=${type}`);
-    if (data && (data.regularMarketPrice || data.price)) {
-      return parseQuoteData(data);
-    }
-  } catch (error) {
-    console.error(`Error fetching quote for ${ticker}:`, error);
-  }
-  return null;
+  return cached(`finance:quote:${ticker}:${type}`, CACHE_POLICIES.quote, async () => {
+    const quote = await marketData.getQuote(ticker, type);
+    return quote ? (await screenQuotes([quote]))[0] ?? null : null;
+  });
 }
 
 // Get snapshot quotes for multiple stocks
 export async function getSnapshots(tickers: string[]): Promise<QuoteResponse[]> {
-  try {
-    const response = await fetchFinanceAPI(`/v1/markets/stock/quotes?ticker=${tickers.join(',')}`);
-    
-    // The API returns data in a 'body' array
-    const body = response.body || response;
-    
-    if (Array.isArray(body) && body.length > 0) {
-      return body.map((item: any) => parseQuoteData(item));
-    }
-  } catch (error) {
-    console.error('Error fetching snapshots:', error);
-  }
-  return [];
+  return (await getSnapshotsWithMeta(tickers)).value;
+}
+
+// Snapshot quotes with when they were fetched and whether the cache served them.
+// `onFetch` runs inside the loader, so it also sees quotes fetched by a
+// background revalidation after a stale value has been returned.
+export async function getSnapshotsWithMeta(
+  tickers: string[],
+  onFetch?: (quotes: QuoteResponse[]) => Promise<void>
+): Promise<CacheResult<QuoteResponse[]>> {
+  // Order does not change the answer, so every caller asking for a set shares an entry
+  const key = `finance:snapshots:${Array.from(new Set(tickers)).sort().join(',')}`;
+  return cachedWithMeta(key, CACHE_POLICIES.quote, async () => {
+    const quotes = await screenQuotes(await marketData.getSnapshots(tickers));
+    if (onFetch && quotes.length > 0) await onFetch(quotes);
+    return quotes;
+  });
 }
 
 // Get historical data
 export async function getHistory(symbol: string, interval: string = '1d', limit?: number): Promise<HistoryData[]> {
-  try {
-    let endpoint = `/v2/markets/stock/history?symbol=${symbol}&interval=${interval}`;
-    if (limit) {
-      endpoint += `&limit=${limit}`;
-    }
-    const response = await fetchFinanceAPI(endpoint);
-    return response?.body || [];
-  } catch (error) {
-    console.error(`Error fetching history for ${symbol}:`, error);
-    return [];
-  }
+  const policy = CACHE_POLICIES[`history:${interval}`] || CACHE_POLICIES.history;
+  return cached(`finance:history:${symbol}:${interval}:${limit ?? ''}`, policy, () => marketData.getHistory(symbol, interval, limit));
 }
 
 // Get market news
 export async function getMarketNews(ticker?: string): Promise<NewsItem[]> {
-  try {
-    let endpoint = '/v1/markets/news';
-    if (ticker) {
-      endpoint += `?ticker=${ticker}`;
-    }
-    const data = await fetchFinanceAPI(endpoint);
-    return data || [];
-  } catch (error) {
-    console.error('Error fetching news:', error);
-    return [];
-  }
+  return cached(`finance:news:${ticker ?? ''}`, CACHE_POLICIES.news, () => marketData.getNews(ticker));
 }
 
-// Common market symbols
-export const MARKET_SYMBOLS = {
-  SP500: '^GSPC',      // S&P 500 Index
-  GOLD: 'GC=F',        // Gold Futures
-  SILVER: 'SI=F',      // Silver Futures
-  BITCOIN: 'BTC-USD',  // Bitcoin
-  ETHEREUM: 'ETH-USD', // Ethereum
-  USDKZT: 'KZT=X',     // USD to KZT
-  GLD: 'GLD',          // Gold ETF
-  SLV: 'SLV',          // Silver ETF
-};
+// Search tickers across the configured providers
+export async function searchSymbols(query: string): Promise<SymbolMatch[]> {
+  const key = `finance:search:${query.trim().toLowerCase()}`;
+  return cached(key, CACHE_POLICIES.search, () => marketData.searchSymbols(query));
+}
 
-// Fetch all market prices
+// Fetch prices for every enabled instrument in the registry
 export async function fetchAllMarketPrices() {
-  const symbols = [
-    MARKET_SYMBOLS.SP500,
-    MARKET_SYMBOLS.GOLD,
-    MARKET_SYMBOLS.SILVER,
-    MARKET_SYMBOLS.BITCOIN,
-    MARKET_SYMBOLS.ETHEREUM,
-    MARKET_SYMBOLS.USDKZT,
-  ];
+  const instruments = await getInstruments();
+  const byTicker = byProviderTicker(instruments);
 
-  const results = await getSnapshots(symbols);
+  const results = await getSnapshots(instruments.map(i => i.providerTicker));
   
   return results.map(item => ({
-    symbol: item.ticker,
-    name: item.name || item.ticker,
+    symbol: byTicker.get(item.ticker)?.symbol || item.ticker,
+    name: byTicker.get(item.ticker)?.name || item.name || item.ticker,
     price: item.price,
     change24h: item.changePercent,
     high24h: item.high,
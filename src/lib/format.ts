@@ -0,0 +1,72 @@
+// Display formatting shared by dashboard components
+
+export interface PriceFormat {
+  assetClass?: string
+  quoteCurrency?: string
+  decimals?: number
+}
+
+// Currency sign and whether it is written before the amount
+const CURRENCY_SIGNS: Record<string, { sign: string; prefix: boolean }> = {
+  USD: { sign: '$', prefix: true },
+  EUR: { sign: '€', prefix: true },
+  RUB: { sign: '₽', prefix: false },
+  KZT: { sign: '₸', prefix: false },
+}
+
+// Format an amount of money, e.g. $1,234.50 or 1,234.50 ₸
+export function formatMoney(value: number | null, currency: string = 'USD', decimals: number = 2): string {
+  if (value === null || value === undefined) return 'N/A'
+
+  const text = Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
+  const sign = value < 0 ? '-' : ''
+  const currencySign = CURRENCY_SIGNS[currency]
+  if (!currencySign) return `${sign}${text} ${currency}`
+  return currencySign.prefix ? `${sign}${currencySign.sign}${text}` : `${sign}${text} ${currencySign.sign}`
+}
+
+// Format price with the instrument's decimals; index points and FX rates
+// are printed without a currency sign
+export function formatPrice(price: number | null, format: PriceFormat = {}): string {
+  if (price === null || price === undefined) return 'N/A'
+
+  const decimals = format.decimals ?? 2
+  if (format.assetClass === 'index' || format.assetClass === 'forex') {
+    return price.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
+  }
+  return formatMoney(price, format.quoteCurrency || 'USD', decimals)
+}
+
+// Format percentage change
+export function formatChange(change: number | null): { text: string; isPositive: boolean } {
+  if (change === null || change === undefined) {
+    return { text: 'N/A', isPositive: false }
+  }
+  return {
+    text: `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`,
+    isPositive: change >= 0
+  }
+}
+
+// Format date
+export function formatDate(dateString: string): string {
+  const date = new Date(dateString)
+  return date.toLocaleDateString('en-US', { 
+    month: 'short', 
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+// Format time ago
+export function timeAgo(dateString: string): string {
+  const date = new Date(dateString)
+  const now = new Date()
+  const seconds = Math.floor((now.getTime() - date.getTime()) / 1000)
+  
+  if (seconds < 60) return 'just now'
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`
+  return `${Math.floor(seconds / 86400)}d ago`
+}
@@ -0,0 +1,72 @@
+// FX rate storage
+// Market rates are fetched alongside prices; official National Bank of
+// Kazakhstan rates change at most once a day, so they are fetched once per
+// UTC day. Both are kept in FxRate, one row per pair and source.
+
+import type { FxRate } from '@prisma/client'
+import { db } from '@/lib/db'
+import { getSnapshots } from '@/lib/finance-api'
+import { FX_MATRIX_CURRENCIES, FX_PAIRS, type FxQuote } from '@/lib/fx'
+import { fetchNbkRates } from '@/lib/nbk-rates'
+
+// Fetch every configured pair and upsert the rates that came back
+export async function refreshFxRates(): Promise<number> {
+  const snapshots = await getSnapshots(FX_PAIRS.map(p => p.ticker))
+  let stored = 0
+
+  for (const pair of FX_PAIRS) {
+    const snapshot = snapshots.find(s => s.ticker === pair.ticker)
+    if (!snapshot || !(snapshot.price > 0)) continue
+
+    const data = { rate: snapshot.price, updatedAt: new Date() }
+    await db.fxRate.upsert({
+      where: { base_quote_source: { base: pair.base, quote: pair.quote, source: 'market' } },
+      update: data,
+      create: { base: pair.base, quote: pair.quote, source: 'market', ...data },
+    })
+    stored++
+  }
+
+  return stored
+}
+
+// Store the official rate of each matrix currency against the tenge for
+// `date`. Nothing is fetched when a fetch already stored rates that day: NBK
+// publishes nothing on weekends and holidays, so the latest publication date
+// can be days old and cannot tell whether today's fetch has happened.
+export async function refreshOfficialRates(date: Date = new Date()): Promise<number> {
+  const day = new Date(`${date.toISOString().slice(0, 10)}T00:00:00Z`)
+  if (await db.fxRate.findFirst({ where: { source: 'nbk', updatedAt: { gte: day } } })) return 0
+
+  const published = await fetchNbkRates(date)
+  if (!published) return 0
+  let stored = 0
+
+  for (const currency of FX_MATRIX_CURRENCIES) {
+    const official = published.rates.find(r => r.currency === currency)
+    if (!official) continue
+
+    const data = { rate: official.rate, asOf: new Date(`${published.date}T00:00:00Z`), updatedAt: new Date() }
+    await db.fxRate.upsert({
+      where: { base_quote_source: { base: currency, quote: 'KZT', source: 'nbk' } },
+      update: data,
+      create: { base: currency, quote: 'KZT', source: 'nbk', ...data },
+    })
+    stored++
+  }
+
+  return stored
+}
+
+export async function getFxRates(source = 'market'): Promise<FxRate[]> {
+  return db.fxRate.findMany({ where: { source }, orderBy: [{ base: 'asc' }, { quote: 'asc' }] })
+}
+
+export function toFxQuote(rate: FxRate): FxQuote {
+  return {
+    base: rate.base,
+    quote: rate.quote,
+    rate: rate.rate,
+    updatedAt: (rate.asOf || rate.updatedAt).toISOString(),
+  }
+}
@@ -0,0 +1,60 @@
+// Currency conversion
+// Ingested rates are reduced to "units per 1 USD" so any two currencies can
+// be crossed through the dollar. Safe to use on the client.
+
+export const DISPLAY_CURRENCIES = ['USD', 'KZT', 'EUR', 'RUB'] as const
+export type DisplayCurrency = typeof DISPLAY_CURRENCIES[number]
+
+// Upstream tickers for the market rates we ingest; 1 base = price quote
+export const FX_PAIRS = [
+  { base: 'USD', quote: 'KZT', ticker: 'KZT=X' },
+  { base: 'EUR', quote: 'USD', ticker: 'EURUSD=X' },
+  { base: 'USD', quote: 'RUB', ticker: 'RUB=X' },
+  { base: 'USD', quote: 'CNY', ticker: 'CNY=X' },
+] as const
+
+// Currencies tracked against the tenge in the FX matrix
+export const FX_MATRIX_CURRENCIES = ['USD', 'EUR', 'RUB', 'CNY'] as const
+
+export interface FxQuote {
+  base: string
+  quote: string
+  rate: number
+  updatedAt: string
+}
+
+// Units of each currency per 1 USD. Pairs without USD are chained through
+// currencies already resolved, e.g. EUR/KZT via USD/KZT.
+export function ratesPerUsd(quotes: FxQuote[]): Record<string, number> {
+  const rates: Record<string, number> = { USD: 1 }
+  let pending = quotes.filter(q => q.rate > 0)
+
+  while (pending.length > 0) {
+    const unresolved = pending.filter(q => {
+      if (rates[q.base] && !rates[q.quote]) rates[q.quote] = rates[q.base] * q.rate
+      else if (rates[q.quote] && !rates[q.base]) rates[q.base] = rates[q.quote] / q.rate
+      else return !rates[q.base] && !rates[q.quote]
+      return false
+    })
+    if (unresolved.length === pending.length) break
+    pending = unresolved
+  }
+  return rates
+}
+
+// Convert between currencies, null when either rate is unknown
+export function convert(amount: number | null, from: string, to: string, perUsd: Record<string, number>): number | null {
+  if (amount === null || amount === undefined) return null
+  if (from === to) return amount
+  const fromRate = perUsd[from]
+  const toRate = perUsd[to]
+  if (!fromRate || !toRate) return null
+  return (amount / fromRate) * toRate
+}
+
+// Cross rates between every pair of currencies: matrix[base][quote] = 1 base in quote
+export function crossRates(currencies: readonly string[], perUsd: Record<string, number>): Record<string, Record<string, number | null>> {
+  return Object.fromEntries(
+    currencies.map(base => [base, Object.fromEntries(currencies.map(quote => [quote, convert(1, base, quote, perUsd)]))])
+  )
+}
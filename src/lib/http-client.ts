@@ -0,0 +1,318 @@
+// Resilient upstream client
+// Every call to an external service (finance gateway, web search, NBK) goes
+// through a named upstream that applies a per-call timeout, retries 429/5xx and
+// network failures with jittered exponential backoff, and trips a circuit
+// breaker after repeated failures. While a breaker is open calls fail at once
+// with CircuitOpenError so callers fall back to their cached data instead of
+// waiting on a service that is down.
+
+export type BreakerState = 'closed' | 'open' | 'half-open'
+
+export interface UpstreamOptions {
+  timeoutMs: number
+  retries: number
+  // Backoff before retry n is a random delay up to baseDelayMs * 2^n, capped
+  baseDelayMs: number
+  maxDelayMs: number
+  // Consecutive failed calls that open the breaker
+  failureThreshold: number
+  // How long the breaker stays open before letting a trial call through
+  resetAfterMs: number
+}
+
+export interface CallOptions {
+  timeoutMs?: number
+  retries?: number
+}
+
+export interface UpstreamStatus {
+  name: string
+  state: BreakerState
+  consecutiveFailures: number
+  openedAt: string | null
+  retryAt: string | null
+  lastError: string | null
+  lastFailureAt: string | null
+  lastSuccessAt: string | null
+  calls: number
+  failures: number
+  shortCircuited: number
+}
+
+const DEFAULT_OPTIONS: UpstreamOptions = {
+  timeoutMs: 10000,
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  failureThreshold: 5,
+  resetAfterMs: 30000,
+}
+
+// A failed upstream request; `status` is set for HTTP error responses
+export class UpstreamError extends Error {
+  constructor(
+    public upstream: string,
+    message: string,
+    public status?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message)
+    this.name = 'UpstreamError'
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(public upstream: string, public retryAt: Date) {
+    super(`${upstream} circuit open until ${retryAt.toISOString()}`)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+export class UpstreamTimeoutError extends UpstreamError {
+  constructor(upstream: string, timeoutMs: number) {
+    super(upstream, `${upstream} timed out after ${timeoutMs}ms`)
+    this.name = 'UpstreamTimeoutError'
+  }
+}
+
+// Rate limits, server errors, timeouts and network failures are worth
+// retrying; other 4xx responses will fail the same way again
+function isRetryable(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) return false
+  const status = error instanceof UpstreamError
+    ? error.status
+    : (error as { status?: unknown })?.status
+  if (typeof status !== 'number') return true
+  return status === 429 || status >= 500
+}
+
+function backoffDelay(attempt: number, options: UpstreamOptions, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, options.maxDelayMs)
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt)
+  return Math.random() * ceiling
+}
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+export interface Upstream {
+  name: string
+  options: UpstreamOptions
+  // Run `request` with timeout, retries and the breaker. The signal aborts
+  // when an attempt times out; requests that cannot be aborted are abandoned.
+  call<T>(request: (signal: AbortSignal) => Promise<T>, options?: CallOptions): Promise<T>
+  // fetch() with the same policies; non-2xx responses throw UpstreamError
+  fetch(url: string, init?: RequestInit, options?: CallOptions): Promise<Response>
+  // fetch() and read the body as JSON or text, all within one call
+  fetchJson<T = any>(url: string, init?: RequestInit, options?: CallOptions): Promise<T>
+  fetchText(url: string, init?: RequestInit, options?: CallOptions): Promise<string>
+  status(): UpstreamStatus
+}
+
+async function withTimeout<T>(upstreamName: string, request: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort()
+      reject(new UpstreamTimeoutError(upstreamName, timeoutMs))
+    }, timeoutMs)
+  })
+  try {
+    return await Promise.race([request(controller.signal), timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// One fetch attempt; network failures and non-2xx responses throw UpstreamError
+async function send(upstreamName: string, url: string, init: RequestInit, signal: AbortSignal): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetch(url, { ...init, signal })
+  } catch (error) {
+    if (signal.aborted) throw error
+    throw new UpstreamError(upstreamName, `${upstreamName} request failed: ${(error as Error).message}`)
+  }
+  if (!response.ok) {
+    throw new UpstreamError(
+      upstreamName,
+      `${upstreamName} error: ${response.status}`,
+      response.status,
+      response.status === 429 ? parseRetryAfter(response.headers.get('retry-after')) : undefined
+    )
+  }
+  return response
+}
+
+// Read a response body; a truncated or unparseable one is a retryable UpstreamError
+async function readBody<T>(upstreamName: string, response: Response, signal: AbortSignal, read: (response: Response) => Promise<T>): Promise<T> {
+  try {
+    return await read(response)
+  } catch (error) {
+    if (signal.aborted) throw error
+    throw new UpstreamError(upstreamName, `${upstreamName} sent an unreadable body: ${(error as Error).message}`)
+  }
+}
+
+export function createUpstream(name: string, overrides: Partial<UpstreamOptions> = {}): Upstream {
+  const options = { ...DEFAULT_OPTIONS, ...overrides }
+  const breaker = {
+    state: 'closed' as BreakerState,
+    consecutiveFailures: 0,
+    openedAt: null as Date | null,
+    trialInFlight: false,
+  }
+  const stats = {
+    lastError: null as string | null,
+    lastFailureAt: null as Date | null,
+    lastSuccessAt: null as Date | null,
+    calls: 0,
+    failures: 0,
+    shortCircuited: 0,
+  }
+
+  const retryAt = () => new Date((breaker.openedAt?.getTime() ?? 0) + options.resetAfterMs)
+
+  // Throw while the breaker is open; after the reset period let one trial through
+  const admit = () => {
+    if (breaker.state === 'closed') return
+    if (breaker.state === 'open' && retryAt().getTime() <= Date.now()) {
+      breaker.state = 'half-open'
+    }
+    if (breaker.state === 'half-open' && !breaker.trialInFlight) {
+      breaker.trialInFlight = true
+      return
+    }
+    stats.shortCircuited++
+    throw new CircuitOpenError(name, retryAt())
+  }
+
+  const recordSuccess = () => {
+    breaker.state = 'closed'
+    breaker.consecutiveFailures = 0
+    breaker.openedAt = null
+    breaker.trialInFlight = false
+    stats.lastSuccessAt = new Date()
+  }
+
+  const recordFailure = (error: unknown) => {
+    stats.failures++
+    stats.lastError = error instanceof Error ? error.message : String(error)
+    stats.lastFailureAt = new Date()
+    breaker.consecutiveFailures++
+    breaker.trialInFlight = false
+    if (breaker.state === 'half-open' || breaker.consecutiveFailures >= options.failureThreshold) {
+      if (breaker.state !== 'open') {
+        console.warn(`Circuit opened for ${name} after ${breaker.consecutiveFailures} failures: ${stats.lastError}`)
+      }
+      breaker.state = 'open'
+      breaker.openedAt = new Date()
+    }
+  }
+
+  const client: Upstream = {
+    name,
+    options,
+
+    async call(request, callOptions = {}) {
+      admit()
+      stats.calls++
+
+      const timeoutMs = callOptions.timeoutMs ?? options.timeoutMs
+      const retries = callOptions.retries ?? options.retries
+      let lastError: unknown
+
+      for (let attempt = 0; attempt <= retries; attempt++) {
+        try {
+          const result = await withTimeout(name, request, timeoutMs)
+          recordSuccess()
+          return result
+        } catch (error) {
+          lastError = error
+          if (attempt === retries || !isRetryable(error)) break
+          await sleep(backoffDelay(attempt, options, (error as UpstreamError).retryAfterMs))
+        }
+      }
+
+      // Client errors mean the upstream answered; only outages count against it
+      if (isRetryable(lastError)) recordFailure(lastError)
+      else recordSuccess()
+      throw lastError
+    },
+
+    async fetch(url, init = {}, callOptions = {}) {
+      return client.call(signal => send(name, url, init, signal), callOptions)
+    },
+
+    // The body is read inside the call, so a stalled or malformed body is
+    // timed out, retried and counted like a failed request
+    async fetchJson(url, init = {}, callOptions = {}) {
+      return client.call(async signal => readBody(name, await send(name, url, init, signal), signal, res => res.json()), callOptions)
+    },
+
+    async fetchText(url, init = {}, callOptions = {}) {
+      return client.call(async signal => readBody(name, await send(name, url, init, signal), signal, res => res.text()), callOptions)
+    },
+
+    status() {
+      const open = breaker.state === 'open'
+      // An elapsed open period is reported as half-open before the next call
+      const state = open && retryAt().getTime() <= Date.now() ? 'half-open' : breaker.state
+      return {
+        name,
+        state,
+        consecutiveFailures: breaker.consecutiveFailures,
+        openedAt: breaker.openedAt?.toISOString() ?? null,
+        retryAt: open ? retryAt().toISOString() : null,
+        lastError: stats.lastError,
+        lastFailureAt: stats.lastFailureAt?.toISOString() ?? null,
+        lastSuccessAt: stats.lastSuccessAt?.toISOString() ?? null,
+        calls: stats.calls,
+        failures: stats.failures,
+        shortCircuited: stats.shortCircuited,
+      }
+    },
+  }
+  return client
+}
+
+// Policies per upstream; callers can still shorten or extend single calls
+const UPSTREAM_OPTIONS = {
+  finance: { timeoutMs: 10000, retries: 2 },
+  search: { timeoutMs: 20000, retries: 1, failureThreshold: 3, resetAfterMs: 60000 },
+  nbk: { timeoutMs: 10000, retries: 2, resetAfterMs: 5 * 60 * 1000 },
+} satisfies Record<string, Partial<UpstreamOptions>>
+
+export type UpstreamName = keyof typeof UPSTREAM_OPTIONS
+
+// Kept on globalThis so every route bundle shares one breaker per upstream
+const globalForUpstreams = globalThis as unknown as {
+  upstreams: Map<UpstreamName, Upstream> | undefined
+}
+
+const upstreams = globalForUpstreams.upstreams ?? new Map<UpstreamName, Upstream>()
+globalForUpstreams.upstreams = upstreams
+
+// The shared client for an upstream
+export function upstream(name: UpstreamName): Upstream {
+  let client = upstreams.get(name)
+  if (!client) {
+    client = createUpstream(name, UPSTREAM_OPTIONS[name])
+    upstreams.set(name, client)
+  }
+  return client
+}
+
+// Breaker state of every upstream, for health output
+export function getUpstreamStatuses(): UpstreamStatus[] {
+  return (Object.keys(UPSTREAM_OPTIONS) as UpstreamName[]).map(name => upstream(name).status())
+}
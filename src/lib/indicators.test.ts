@@ -0,0 +1,178 @@
+/// <reference types="bun-types" />
+
+import { describe, expect, test } from 'bun:test'
+import type { HistoryData } from '@/lib/finance-api'
+import {
+  INDICATORS,
+  atr,
+  bollinger,
+  ema,
+  macd,
+  parseIndicatorParams,
+  rsi,
+  sma,
+  stochastic,
+  vwap,
+  type Series,
+} from '@/lib/indicators'
+
+function candle(high: number, low: number, close: number, volume = 0, timestamp = 0): HistoryData {
+  return { timestamp, open: close, high, low, close, volume }
+}
+
+// Compare the tail of a series with reference values, within `tolerance`
+function expectTail(series: Series, expected: number[], tolerance: number) {
+  const tail = series.slice(series.length - expected.length)
+  tail.forEach((value, i) => expect(Math.abs(value! - expected[i])).toBeLessThan(tolerance))
+}
+
+// Wilder's RSI worked example (StockCharts): closes and the RSI from the 15th close on.
+// The published table rounds the average gain and loss to two places, so it
+// differs from the exact values by up to 0.07
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+  46.00, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+  43.42, 42.66, 43.13,
+]
+const RSI_EXPECTED = [
+  70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38, 54.71, 50.42, 39.99, 41.46, 41.87,
+  45.46, 37.30, 33.08, 37.77,
+]
+
+const line = (length: number, slope = 1) => Array.from({ length }, (_, i) => 100 + i * slope)
+const flat = (length: number) => Array.from({ length }, () => 100)
+
+describe('moving averages', () => {
+  test('sma averages the last `period` values', () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4])
+  })
+
+  test('a null restarts the sma window', () => {
+    expect(sma([1, 2, null, 3, 4, 5], 2)).toEqual([null, 1.5, null, null, 3.5, 4.5])
+  })
+
+  test('ema is seeded with the sma and then smoothed', () => {
+    // alpha = 0.5: seed (1 + 2 + 3) / 3 = 2, then 4 * 0.5 + 2 * 0.5 = 3, 10 * 0.5 + 3 * 0.5 = 6.5
+    expect(ema([1, 2, 3, 4, 10], 3)).toEqual([null, null, 2, 3, 6.5])
+  })
+
+  test('fewer values than the period give no output', () => {
+    expect(sma([1, 2], 3)).toEqual([null, null])
+    expect(ema([1, 2], 3)).toEqual([null, null])
+    expect(sma([], 3)).toEqual([])
+  })
+})
+
+describe('rsi', () => {
+  test("matches Wilder's worked example", () => {
+    const values = rsi(RSI_CLOSES, 14)
+    expect(values.slice(0, 14).every(v => v === null)).toBe(true)
+    expectTail(values, RSI_EXPECTED, 0.1)
+  })
+
+  test('only gains give 100 and only losses give 0', () => {
+    expect(rsi(line(20), 14).at(-1)).toBe(100)
+    expect(rsi(line(20, -1), 14).at(-1)).toBe(0)
+  })
+
+  test('flat prices are neutral', () => {
+    expect(rsi(flat(20), 14).at(-1)).toBe(50)
+  })
+
+  test('a series no longer than the period has no value', () => {
+    expect(rsi(RSI_CLOSES.slice(0, 14), 14).every(v => v === null)).toBe(true)
+  })
+})
+
+describe('macd', () => {
+  test('on a straight line the macd is the difference between the ema lags', () => {
+    // A `period` EMA of a line with slope 1 lags it by (period - 1) / 2: 12.5 - 5.5 = 7
+    const { macd: values, signal, histogram } = macd(line(60), 12, 26, 9)
+    expect(values[24]).toBeNull()
+    expect(values.slice(25).every(v => v === 7)).toBe(true)
+    expect(signal[32]).toBeNull()
+    expect(signal.slice(33).every(v => v === 7)).toBe(true)
+    expect(histogram.slice(33).every(v => v === 0)).toBe(true)
+  })
+
+  test('flat prices give zero', () => {
+    const result = macd(flat(40))
+    expect(result.macd.at(-1)).toBe(0)
+    expect(result.histogram.at(-1)).toBe(0)
+  })
+
+  test('too few closes for the slow ema give no values', () => {
+    expect(macd(line(25)).macd.every(v => v === null)).toBe(true)
+  })
+})
+
+describe('bollinger', () => {
+  test('bands sit population standard deviations from the sma', () => {
+    // Mean 3, variance (4 + 1 + 0 + 1 + 4) / 5 = 2
+    const { middle, upper, lower } = bollinger([1, 2, 3, 4, 5], 5, 2)
+    expect(middle.at(-1)).toBe(3)
+    expect(upper.at(-1)).toBeCloseTo(3 + 2 * Math.SQRT2, 8)
+    expect(lower.at(-1)).toBeCloseTo(3 - 2 * Math.SQRT2, 8)
+    expect(upper.slice(0, 4)).toEqual([null, null, null, null])
+  })
+
+  test('flat prices collapse the bands onto the mean', () => {
+    const { middle, upper, lower } = bollinger(flat(25))
+    expect([middle.at(-1), upper.at(-1), lower.at(-1)]).toEqual([100, 100, 100])
+  })
+})
+
+describe('atr', () => {
+  test('equals the range when candles do not gap', () => {
+    const candles = Array.from({ length: 20 }, (_, i) => candle(101 + i, 99 + i, 100 + i))
+    const values = atr(candles, 14)
+    expect(values[12]).toBeNull()
+    expect(values.slice(13).every(v => v === 2)).toBe(true)
+  })
+
+  test('a gap from the previous close widens the true range', () => {
+    const candles = [...Array.from({ length: 3 }, () => candle(101, 99, 100)), candle(111, 109, 110)]
+    // True ranges 2, 2, 2, then |111 - 100| = 11; Wilder: (2 * 2 + 11) / 3 = 5
+    expect(atr(candles, 3)).toEqual([null, null, 2, 5])
+  })
+})
+
+describe('stochastic', () => {
+  test('%K places the close within the high-low range and %D smooths it', () => {
+    const candles = [candle(10, 0, 5), candle(10, 0, 10), candle(10, 0, 0), candle(10, 0, 10)]
+    const { k, d } = stochastic(candles, 2, 2)
+    expect(k).toEqual([null, 100, 0, 100])
+    expect(d).toEqual([null, null, 50, 50])
+  })
+
+  test('flat prices read 50', () => {
+    const { k } = stochastic(flat(20).map(p => candle(p, p, p)))
+    expect(k.at(-1)).toBe(50)
+  })
+})
+
+describe('vwap', () => {
+  test('weights the typical price by volume from the first candle', () => {
+    // Typical prices 10 and 20 with volumes 1 and 3
+    const values = vwap([candle(12, 8, 10, 1), candle(22, 18, 20, 3), candle(30, 30, 30, 0)])
+    expect(values).toEqual([10, 17.5, 17.5])
+  })
+
+  test('has no value before any volume trades', () => {
+    expect(vwap([candle(10, 10, 10, 0), candle(10, 10, 10, 2)])).toEqual([null, 10])
+  })
+})
+
+describe('parseIndicatorParams', () => {
+  test('overrides defaults and rounds candle counts', () => {
+    expect(parseIndicatorParams(INDICATORS.bollinger, 'period:10.4,stdDev:2.5')).toEqual({ period: 10, stdDev: 2.5 })
+    expect(parseIndicatorParams(INDICATORS.rsi, null)).toEqual({ period: 14 })
+  })
+
+  test('rejects unknown, inherited and out-of-range parameters', () => {
+    expect(() => parseIndicatorParams(INDICATORS.rsi, 'length:10')).toThrow('Unknown parameter')
+    expect(() => parseIndicatorParams(INDICATORS.rsi, 'toString:10')).toThrow('Unknown parameter')
+    expect(() => parseIndicatorParams(INDICATORS.rsi, 'period:0')).toThrow('between 0 and 500')
+    expect(() => parseIndicatorParams(INDICATORS.rsi, 'period:abc')).toThrow('between 0 and 500')
+  })
+})
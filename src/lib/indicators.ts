@@ -0,0 +1,249 @@
+// Technical indicators
+// Pure functions over candle series. Every output series is aligned with the
+// input candles and holds null until the indicator has enough data.
+
+import type { HistoryData } from '@/lib/finance-api'
+
+export type Series = Array<number | null>
+
+export interface IndicatorDefinition {
+  label: string
+  // Drawn over price rather than in its own panel
+  overlay: boolean
+  defaults: Record<string, number>
+  outputs: string[]
+  compute: (candles: HistoryData[], params: Record<string, number>) => Record<string, Series>
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e8) / 1e8
+}
+
+// Simple moving average; nulls in the input restart the window
+export function sma(values: Series, period: number): Series {
+  const result: Series = []
+  let sum = 0
+  let count = 0
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]
+    if (value === null) {
+      sum = 0
+      count = 0
+      result.push(null)
+      continue
+    }
+    sum += value
+    count++
+    if (count > period) {
+      sum -= values[i - period]!
+      count = period
+    }
+    result.push(count === period ? round(sum / period) : null)
+  }
+  return result
+}
+
+// Exponential moving average seeded with the SMA of the first `period` values
+export function ema(values: Series, period: number, alpha = 2 / (period + 1)): Series {
+  const result: Series = []
+  let previous: number | null = null
+  let seed: number[] = []
+  for (const value of values) {
+    if (value === null) {
+      result.push(null)
+      continue
+    }
+    if (previous === null) {
+      seed.push(value)
+      if (seed.length === period) {
+        previous = seed.reduce((sum, v) => sum + v, 0) / period
+        seed = []
+        result.push(round(previous))
+      } else {
+        result.push(null)
+      }
+      continue
+    }
+    previous = value * alpha + previous * (1 - alpha)
+    result.push(round(previous))
+  }
+  return result
+}
+
+// Wilder's smoothing, used by RSI and ATR
+function wilder(values: Series, period: number): Series {
+  return ema(values, period, 1 / period)
+}
+
+// Relative strength index (Wilder)
+export function rsi(closes: number[], period = 14): Series {
+  const gains: Series = [null]
+  const losses: Series = [null]
+  for (let i = 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1]
+    gains.push(Math.max(change, 0))
+    losses.push(Math.max(-change, 0))
+  }
+  const avgGain = wilder(gains, period)
+  const avgLoss = wilder(losses, period)
+  return avgGain.map((gain, i) => {
+    const loss = avgLoss[i]
+    if (gain === null || loss === null) return null
+    // Flat prices have neither gains nor losses and read neutral
+    if (gain === 0 && loss === 0) return 50
+    if (loss === 0) return 100
+    return round(100 - 100 / (1 + gain / loss))
+  })
+}
+
+// MACD line, signal line and histogram
+export function macd(closes: number[], fast = 12, slow = 26, signal = 9): Record<'macd' | 'signal' | 'histogram', Series> {
+  const fastEma = ema(closes, fast)
+  const slowEma = ema(closes, slow)
+  const line = fastEma.map((f, i) => (f === null || slowEma[i] === null ? null : round(f - slowEma[i]!)))
+  const signalLine = ema(line, signal)
+  const histogram = line.map((m, i) => (m === null || signalLine[i] === null ? null : round(m - signalLine[i]!)))
+  return { macd: line, signal: signalLine, histogram }
+}
+
+// Bollinger Bands: SMA with bands `stdDev` standard deviations away
+export function bollinger(closes: number[], period = 20, stdDev = 2): Record<'middle' | 'upper' | 'lower', Series> {
+  const middle = sma(closes, period)
+  const upper: Series = []
+  const lower: Series = []
+  middle.forEach((mean, i) => {
+    if (mean === null) {
+      upper.push(null)
+      lower.push(null)
+      return
+    }
+    const window = closes.slice(i - period + 1, i + 1)
+    const deviation = Math.sqrt(window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period)
+    upper.push(round(mean + stdDev * deviation))
+    lower.push(round(mean - stdDev * deviation))
+  })
+  return { middle, upper, lower }
+}
+
+// Average true range (Wilder)
+export function atr(candles: HistoryData[], period = 14): Series {
+  const trueRanges: Series = candles.map((c, i) => {
+    if (i === 0) return c.high - c.low
+    const previousClose = candles[i - 1].close
+    return Math.max(c.high - c.low, Math.abs(c.high - previousClose), Math.abs(c.low - previousClose))
+  })
+  return wilder(trueRanges, period)
+}
+
+// Stochastic oscillator: %K over `kPeriod` candles and its `dPeriod` SMA as %D
+export function stochastic(candles: HistoryData[], kPeriod = 14, dPeriod = 3): Record<'k' | 'd', Series> {
+  const k: Series = candles.map((c, i) => {
+    if (i < kPeriod - 1) return null
+    const window = candles.slice(i - kPeriod + 1, i + 1)
+    const high = Math.max(...window.map(w => w.high))
+    const low = Math.min(...window.map(w => w.low))
+    return high === low ? 50 : round(((c.close - low) / (high - low)) * 100)
+  })
+  return { k, d: sma(k, dPeriod) }
+}
+
+// Volume-weighted average price, anchored at the first candle of the series
+export function vwap(candles: HistoryData[]): Series {
+  let priceVolume = 0
+  let totalVolume = 0
+  return candles.map(c => {
+    const volume = c.volume || 0
+    priceVolume += ((c.high + c.low + c.close) / 3) * volume
+    totalVolume += volume
+    return totalVolume > 0 ? round(priceVolume / totalVolume) : null
+  })
+}
+
+const closes = (candles: HistoryData[]) => candles.map(c => c.close)
+
+export const INDICATORS: Record<string, IndicatorDefinition> = {
+  sma: {
+    label: 'SMA',
+    overlay: true,
+    defaults: { period: 20 },
+    outputs: ['sma'],
+    compute: (candles, p) => ({ sma: sma(closes(candles), p.period) }),
+  },
+  ema: {
+    label: 'EMA',
+    overlay: true,
+    defaults: { period: 20 },
+    outputs: ['ema'],
+    compute: (candles, p) => ({ ema: ema(closes(candles), p.period) }),
+  },
+  bollinger: {
+    label: 'Bollinger Bands',
+    overlay: true,
+    defaults: { period: 20, stdDev: 2 },
+    outputs: ['middle', 'upper', 'lower'],
+    compute: (candles, p) => bollinger(closes(candles), p.period, p.stdDev),
+  },
+  vwap: {
+    label: 'VWAP',
+    overlay: true,
+    defaults: {},
+    outputs: ['vwap'],
+    compute: candles => ({ vwap: vwap(candles) }),
+  },
+  rsi: {
+    label: 'RSI',
+    overlay: false,
+    defaults: { period: 14 },
+    outputs: ['rsi'],
+    compute: (candles, p) => ({ rsi: rsi(closes(candles), p.period) }),
+  },
+  macd: {
+    label: 'MACD',
+    overlay: false,
+    defaults: { fast: 12, slow: 26, signal: 9 },
+    outputs: ['macd', 'signal', 'histogram'],
+    compute: (candles, p) => macd(closes(candles), p.fast, p.slow, p.signal),
+  },
+  atr: {
+    label: 'ATR',
+    overlay: false,
+    defaults: { period: 14 },
+    outputs: ['atr'],
+    compute: (candles, p) => ({ atr: atr(candles, p.period) }),
+  },
+  stochastic: {
+    label: 'Stochastic',
+    overlay: false,
+    defaults: { kPeriod: 14, dPeriod: 3 },
+    outputs: ['k', 'd'],
+    compute: (candles, p) => stochastic(candles, p.kPeriod, p.dPeriod),
+  },
+}
+
+// Parse `period:20,stdDev:2` over an indicator's defaults; throws on unknown
+// or invalid parameters
+export function parseIndicatorParams(definition: IndicatorDefinition, raw: string | null): Record<string, number> {
+  const params = { ...definition.defaults }
+  if (!raw) return params
+
+  for (const pair of raw.split(',').filter(Boolean)) {
+    const [key, value] = pair.split(':').map(s => s.trim())
+    if (!Object.hasOwn(definition.defaults, key)) {
+      throw new Error(`Unknown parameter "${key}" for ${definition.label}`)
+    }
+    const number = Number(value)
+    if (!Number.isFinite(number) || number <= 0 || number > 500) {
+      throw new Error(`Parameter "${key}" must be a number between 0 and 500`)
+    }
+    // Everything except band width counts candles
+    params[key] = key === 'stdDev' ? number : Math.round(number)
+  }
+  return params
+}
+
+// Candles needed before the first value is meaningful
+export function warmupCandles(params: Record<string, number>): number {
+  const periods = Object.entries(params).filter(([key]) => key !== 'stdDev').map(([, v]) => v)
+  // EMA-based indicators keep converging after their seed window
+  return periods.reduce((sum, v) => sum + v, 0) * 3
+}
@@ -0,0 +1,65 @@
+// Instrument registry
+// Maps upstream provider tickers to display symbols, names and formatting.
+// Adding an asset is a row in the Instrument table, not a code change.
+
+import type { Instrument } from '@prisma/client'
+import { db } from '@/lib/db'
+import { setKnownAssetClasses, type AssetClass } from '@/lib/providers'
+
+export type { Instrument } from '@prisma/client'
+
+export const ASSET_CLASSES: AssetClass[] = ['index', 'commodity', 'crypto', 'forex', 'equity']
+
+// Seeded into an empty registry so a fresh database tracks the original six assets
+const DEFAULT_INSTRUMENTS = [
+  { symbol: 'SP500', providerTicker: '^GSPC', name: 'S&P 500', assetClass: 'index', quoteCurrency: 'USD', exchange: 'NYSE', decimals: 2 },
+  { symbol: 'GOLD', providerTicker: 'GC=F', name: 'Gold', assetClass: 'commodity', quoteCurrency: 'USD', exchange: 'CME', decimals: 2 },
+  { symbol: 'SILVER', providerTicker: 'SI=F', name: 'Silver', assetClass: 'commodity', quoteCurrency: 'USD', exchange: 'CME', decimals: 2 },
+  { symbol: 'BTC', providerTicker: 'BTC-USD', name: 'Bitcoin', assetClass: 'crypto', quoteCurrency: 'USD', exchange: 'CRYPTO', decimals: 2 },
+  { symbol: 'ETH', providerTicker: 'ETH-USD', name: 'Ethereum', assetClass: 'crypto', quoteCurrency: 'USD', exchange: 'CRYPTO', decimals: 2 },
+  { symbol: 'USDKZT', providerTicker: 'KZT=X', name: 'USD/KZT', assetClass: 'forex', quoteCurrency: 'KZT', exchange: 'KASE', decimals: 2 },
+]
+
+let seeded = false
+
+async function ensureDefaultInstruments() {
+  if (seeded) return
+  const count = await db.instrument.count()
+  if (count === 0) {
+    for (const [index, instrument] of DEFAULT_INSTRUMENTS.entries()) {
+      await db.instrument.upsert({
+        where: { symbol: instrument.symbol },
+        update: {},
+        create: { ...instrument, sortOrder: index },
+      })
+    }
+  }
+  seeded = true
+}
+
+// List instruments in display order, enabled only unless asked otherwise
+export async function getInstruments(options: { includeDisabled?: boolean } = {}): Promise<Instrument[]> {
+  await ensureDefaultInstruments()
+  const instruments = await db.instrument.findMany({
+    where: options.includeDisabled ? undefined : { enabled: true },
+    orderBy: [{ sortOrder: 'asc' }, { symbol: 'asc' }],
+  })
+
+  // Let the provider layer route by the registered asset class
+  setKnownAssetClasses(
+    Object.fromEntries(instruments.map(i => [i.providerTicker, i.assetClass as AssetClass]))
+  )
+  return instruments
+}
+
+export async function getInstrument(symbol: string): Promise<Instrument | null> {
+  await ensureDefaultInstruments()
+  return db.instrument.findFirst({
+    where: { OR: [{ symbol }, { providerTicker: symbol }] },
+  })
+}
+
+// Index instruments by upstream ticker for mapping provider results
+export function byProviderTicker(instruments: Instrument[]): Map<string, Instrument> {
+  return new Map(instruments.map(i => [i.providerTicker, i]))
+}
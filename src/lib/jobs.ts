@@ -0,0 +1,92 @@
+// Scheduled refresh jobs
+// Each job runs a subset of the /api/refresh steps on a cron schedule. The
+// data-fetcher service polls the table, runs jobs that are due and reports
+// back; a nextRunAt left in the past by downtime is caught up with one run.
+
+import type { ScheduledJob } from '@prisma/client'
+import { db } from '@/lib/db'
+import { nextCronTime } from '@/lib/cron'
+
+export type { ScheduledJob } from '@prisma/client'
+
+export const REFRESH_STEPS = ['prices', 'fx', 'news', 'analysis', 'sentiment', 'history'] as const
+export type RefreshStep = typeof REFRESH_STEPS[number]
+
+// Seeded into an empty table; schedules can be changed through the admin API
+const DEFAULT_JOBS = [
+  { name: 'prices', description: 'Latest quotes and FX rates', cron: '* * * * *', steps: 'prices,fx' },
+  { name: 'history', description: 'OHLCV candles and rollups', cron: '0 * * * *', steps: 'history' },
+  { name: 'news', description: 'Crypto news search', cron: '*/15 * * * *', steps: 'news' },
+  { name: 'analysis', description: 'Analysis and predictions search', cron: '0 */6 * * *', steps: 'analysis' },
+]
+
+let seeded = false
+
+async function ensureDefaultJobs() {
+  if (seeded) return
+  const count = await db.scheduledJob.count()
+  if (count === 0) {
+    for (const job of DEFAULT_JOBS) {
+      await db.scheduledJob.upsert({
+        where: { name: job.name },
+        update: {},
+        create: { ...job, nextRunAt: nextCronTime(job.cron) },
+      })
+    }
+  }
+  seeded = true
+}
+
+// Split a comma-separated step list, throwing on unknown steps
+export function parseSteps(value: string): RefreshStep[] {
+  const steps = value.split(',').map(s => s.trim()).filter(Boolean)
+  const unknown = steps.filter(s => !REFRESH_STEPS.includes(s as RefreshStep))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown refresh steps: ${unknown.join(', ')}`)
+  }
+  return steps as RefreshStep[]
+}
+
+export async function getJobs(): Promise<ScheduledJob[]> {
+  await ensureDefaultJobs()
+  return db.scheduledJob.findMany({ orderBy: { name: 'asc' } })
+}
+
+export async function getJob(name: string): Promise<ScheduledJob | null> {
+  await ensureDefaultJobs()
+  return db.scheduledJob.findUnique({ where: { name } })
+}
+
+// Change a schedule or toggle a job. The next run is counted from now, so
+// re-enabling a job does not replay the runs skipped while it was off.
+export async function updateJob(
+  job: ScheduledJob,
+  changes: { cron?: string; enabled?: boolean }
+): Promise<ScheduledJob> {
+  const cron = changes.cron ?? job.cron
+  const rescheduled = changes.cron !== undefined || (changes.enabled === true && !job.enabled)
+  return db.scheduledJob.update({
+    where: { id: job.id },
+    data: {
+      ...changes,
+      ...(rescheduled ? { nextRunAt: nextCronTime(cron) } : {}),
+    },
+  })
+}
+
+// Store a run's outcome and schedule the next one after it
+export async function recordJobRun(
+  job: ScheduledJob,
+  run: { startedAt: Date; status: 'success' | 'failed'; error?: string | null; durationMs: number }
+): Promise<ScheduledJob> {
+  return db.scheduledJob.update({
+    where: { id: job.id },
+    data: {
+      lastRunAt: run.startedAt,
+      lastStatus: run.status,
+      lastError: run.error ?? null,
+      lastDurationMs: run.durationMs,
+      nextRunAt: nextCronTime(job.cron),
+    },
+  })
+}
@@ -0,0 +1,265 @@
+// Market calendar
+// Trading sessions and holidays per venue, evaluated in the venue's time zone.
+// Instruments map to a venue (Instrument.exchange, else by asset class), which
+// tells the prices API whether a market is open, lets the refresh pipeline
+// skip quotes that cannot have changed and keeps closed hours out of candle gaps.
+
+import type { Instrument } from '@prisma/client'
+
+export const EXCHANGES = ['NYSE', 'CME', 'KASE', 'FX', 'CRYPTO'] as const
+export type Exchange = typeof EXCHANGES[number]
+
+// Minutes after local midnight, [open, close)
+type Session = [number, number]
+
+interface ExchangeCalendar {
+  label: string
+  timeZone: string
+  // Sessions per local weekday, Sunday first
+  week: Session[][]
+  // Local dates (YYYY-MM-DD) with no trading
+  holidays: (year: number) => string[]
+  // Local dates that close early, with the closing minute
+  earlyCloses?: Record<string, number>
+}
+
+export interface MarketState {
+  exchange: Exchange
+  label: string
+  open: boolean
+  // Most recent end of trading, null for markets that never close
+  lastClose: Date | null
+  nextOpen: Date | null
+}
+
+const hm = (hours: number, minutes = 0) => hours * 60 + minutes
+const DAY = hm(24)
+const WEEKDAYS = (session: Session[]): Session[][] => [[], session, session, session, session, session, []]
+
+// NYSE full-day closures
+const NYSE_HOLIDAYS: Record<number, string[]> = {
+  2025: ['2025-01-01', '2025-01-09', '2025-01-20', '2025-02-17', '2025-04-18', '2025-05-26', '2025-06-19', '2025-07-04', '2025-09-01', '2025-11-27', '2025-12-25'],
+  2026: ['2026-01-01', '2026-01-19', '2026-02-16', '2026-04-03', '2026-05-25', '2026-06-19', '2026-07-03', '2026-09-07', '2026-11-26', '2026-12-25'],
+  2027: ['2027-01-01', '2027-01-18', '2027-02-15', '2027-03-26', '2027-05-31', '2027-06-18', '2027-07-05', '2027-09-06', '2027-11-25', '2027-12-24'],
+}
+
+// CME metals trade through most US holidays on a shortened session; these
+// are the days Globex is shut
+const CME_HOLIDAYS: Record<number, string[]> = {
+  2025: ['2025-01-01', '2025-04-18', '2025-12-25'],
+  2026: ['2026-01-01', '2026-04-03', '2026-12-25'],
+  2027: ['2027-01-01', '2027-03-26', '2027-12-24'],
+}
+
+// Kazakhstan public holidays on fixed dates; one falling on a weekend moves
+// to the next working day
+const KZ_FIXED_HOLIDAYS = ['01-01', '01-02', '01-07', '03-08', '03-21', '03-22', '03-23', '05-01', '05-07', '05-09', '07-06', '08-30', '10-25', '12-16']
+
+// First day of Kurban Ait follows the lunar calendar
+const KURBAN_AIT: Record<number, string> = {
+  2025: '2025-06-06',
+  2026: '2026-05-27',
+  2027: '2027-05-16',
+}
+
+function kazakhstanHolidays(year: number): string[] {
+  const days = new Set<string>()
+  const isWeekend = (date: Date) => date.getUTCDay() === 0 || date.getUTCDay() === 6
+  for (const monthDay of KZ_FIXED_HOLIDAYS) {
+    const date = new Date(`${year}-${monthDay}T00:00:00Z`)
+    if (isWeekend(date)) {
+      while (isWeekend(date) || days.has(dateKey(date))) date.setUTCDate(date.getUTCDate() + 1)
+    }
+    days.add(dateKey(date))
+  }
+  if (KURBAN_AIT[year]) days.add(KURBAN_AIT[year])
+  return Array.from(days)
+}
+
+const CALENDARS: Record<Exchange, ExchangeCalendar> = {
+  NYSE: {
+    label: 'NYSE',
+    timeZone: 'America/New_York',
+    week: WEEKDAYS([[hm(9, 30), hm(16)]]),
+    holidays: year => NYSE_HOLIDAYS[year] || [],
+    earlyCloses: {
+      '2025-07-03': hm(13), '2025-11-28': hm(13), '2025-12-24': hm(13),
+      '2026-11-27': hm(13), '2026-12-24': hm(13),
+      '2027-11-26': hm(13),
+    },
+  },
+  // Globex: Sunday 18:00 to Friday 17:00 ET with a daily hour's break
+  CME: {
+    label: 'CME',
+    timeZone: 'America/New_York',
+    week: [
+      [[hm(18), DAY]],
+      [[0, hm(17)], [hm(18), DAY]],
+      [[0, hm(17)], [hm(18), DAY]],
+      [[0, hm(17)], [hm(18), DAY]],
+      [[0, hm(17)], [hm(18), DAY]],
+      [[0, hm(17)]],
+      [],
+    ],
+    holidays: year => CME_HOLIDAYS[year] || [],
+  },
+  // Main USD/KZT session
+  KASE: {
+    label: 'KASE',
+    timeZone: 'Asia/Almaty',
+    week: WEEKDAYS([[hm(10, 15), hm(15, 30)]]),
+    holidays: kazakhstanHolidays,
+  },
+  // Interbank FX: Sunday 17:00 to Friday 17:00 New York time
+  FX: {
+    label: 'FX',
+    timeZone: 'America/New_York',
+    week: [[[hm(17), DAY]], [[0, DAY]], [[0, DAY]], [[0, DAY]], [[0, DAY]], [[0, hm(17)]], []],
+    holidays: () => [],
+  },
+  CRYPTO: {
+    label: 'Crypto',
+    timeZone: 'UTC',
+    week: Array.from({ length: 7 }, () => [[0, DAY]] as Session[]),
+    holidays: () => [],
+  },
+}
+
+const DEFAULT_EXCHANGES: Record<string, Exchange> = {
+  index: 'NYSE',
+  equity: 'NYSE',
+  commodity: 'CME',
+  forex: 'FX',
+  crypto: 'CRYPTO',
+}
+
+// Venue for an instrument: its own setting, else tenge pairs on KASE and the
+// default for its asset class
+export function exchangeFor(instrument: Pick<Instrument, 'assetClass' | 'quoteCurrency'> & { exchange?: string | null }): Exchange {
+  if (instrument.exchange && (EXCHANGES as readonly string[]).includes(instrument.exchange)) {
+    return instrument.exchange as Exchange
+  }
+  if (instrument.assetClass === 'forex' && instrument.quoteCurrency === 'KZT') return 'KASE'
+  return DEFAULT_EXCHANGES[instrument.assetClass] || 'NYSE'
+}
+
+function dateKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+// Wall-clock date and time of an instant in a time zone
+function zonedParts(instant: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map(p => [p.type, p.value]))
+  // The local calendar date, as a UTC midnight for date arithmetic
+  const day = new Date(Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day)))
+  return {
+    day,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    offsetMs: Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute), Number(parts.second)) - Math.floor(instant.getTime() / 1000) * 1000,
+  }
+}
+
+// The instant of a wall-clock time on a local date
+function zonedInstant(day: Date, minutes: number, timeZone: string): Date {
+  const wallClock = day.getTime() + minutes * 60 * 1000
+  let instant = wallClock - zonedParts(new Date(wallClock), timeZone).offsetMs
+  // A second pass settles dates where the offset changes (DST)
+  instant = wallClock - zonedParts(new Date(instant), timeZone).offsetMs
+  return new Date(instant)
+}
+
+function sessionsOn(calendar: ExchangeCalendar, day: Date): Session[] {
+  const key = dateKey(day)
+  if (calendar.holidays(day.getUTCFullYear()).includes(key)) return []
+  const earlyClose = calendar.earlyCloses?.[key]
+  return calendar.week[day.getUTCDay()]
+    .map(([open, close]): Session => [open, earlyClose !== undefined ? Math.min(close, earlyClose) : close])
+    .filter(([open, close]) => close > open)
+}
+
+function addDays(day: Date, days: number): Date {
+  return new Date(day.getTime() + days * 24 * 60 * 60 * 1000)
+}
+
+// How far to look for the previous close or next open; covers long holidays
+const SEARCH_DAYS = 14
+
+export function getMarketState(exchange: Exchange, now: Date = new Date()): MarketState {
+  const calendar = CALENDARS[exchange]
+  const { day: today, minutes } = zonedParts(now, calendar.timeZone)
+  const open = sessionsOn(calendar, today).some(([start, end]) => minutes >= start && minutes < end)
+
+  // A session running to midnight that continues the next day is not a close
+  const continues = (day: Date) => sessionsOn(calendar, addDays(day, 1)).some(([start]) => start === 0)
+  const resumes = (day: Date) => sessionsOn(calendar, addDays(day, -1)).some(([, end]) => end === DAY)
+
+  let lastClose: Date | null = null
+  for (let i = 0; i <= SEARCH_DAYS && !lastClose; i++) {
+    const day = addDays(today, -i)
+    const closes = sessionsOn(calendar, day)
+      .filter(([, end]) => end < DAY || !continues(day))
+      .map(([, end]) => zonedInstant(day, end, calendar.timeZone))
+      .filter(close => close <= now)
+    if (closes.length > 0) lastClose = closes[closes.length - 1]
+  }
+
+  let nextOpen: Date | null = null
+  for (let i = 0; i <= SEARCH_DAYS && !nextOpen; i++) {
+    const day = addDays(today, i)
+    const opens = sessionsOn(calendar, day)
+      .filter(([start]) => start > 0 || !resumes(day))
+      .map(([start]) => zonedInstant(day, start, calendar.timeZone))
+      .filter(start => start > now)
+    if (opens.length > 0) nextOpen = opens[0]
+  }
+
+  return { exchange, label: calendar.label, open, lastClose, nextOpen }
+}
+
+// Trading sessions overlapping [from, to) as [open, close) instants in ms,
+// with sessions that carry on past local midnight merged into one
+export function tradingSessions(exchange: Exchange, from: Date, to: Date): Array<[number, number]> {
+  const calendar = CALENDARS[exchange]
+  const sessions: Array<[number, number]> = []
+  const lastDay = zonedParts(to, calendar.timeZone).day.getTime()
+  for (let day = zonedParts(from, calendar.timeZone).day; day.getTime() <= lastDay; day = addDays(day, 1)) {
+    for (const [open, close] of sessionsOn(calendar, day)) {
+      const start = zonedInstant(day, open, calendar.timeZone).getTime()
+      const end = zonedInstant(day, close, calendar.timeZone).getTime()
+      if (end <= from.getTime() || start >= to.getTime()) continue
+      const previous = sessions[sessions.length - 1]
+      if (previous && previous[1] >= start) previous[1] = Math.max(previous[1], end)
+      else sessions.push([start, end])
+    }
+  }
+  return sessions
+}
+
+export function getInstrumentMarketState(
+  instrument: Pick<Instrument, 'assetClass' | 'quoteCurrency'> & { exchange?: string | null },
+  now: Date = new Date()
+): MarketState {
+  return getMarketState(exchangeFor(instrument), now)
+}
+
+// Whether the market has stayed shut since `time`, so data fetched at or after
+// then already reflects the last close
+export function closedSince(state: MarketState, time: Date): boolean {
+  return !state.open && state.lastClose !== null && state.lastClose <= time
+}
@@ -0,0 +1,59 @@
+// MarketPrice writes
+// Every ingestion path stores quotes through here so that post-write hooks
+// (alert evaluation, stream events) run no matter which route fetched the data.
+
+import type { AlertEvent } from '@prisma/client'
+import { db } from '@/lib/db'
+import { evaluateAlerts } from '@/lib/alerts'
+import { publishStreamEvents } from '@/lib/stream-events'
+
+export interface MarketPriceInput {
+  symbol: string
+  name: string
+  price: number
+  change24h: number | null
+  high24h: number | null
+  low24h: number | null
+  volume: number | null
+}
+
+// Upsert quotes by display symbol, then evaluate alert rules on the changes
+// and publish a price event for each
+export async function storeMarketPrices(prices: MarketPriceInput[]): Promise<{ stored: number; inserted: number; alerts: AlertEvent[] }> {
+  const previous = new Map(
+    (await db.marketPrice.findMany({
+      where: { symbol: { in: prices.map(p => p.symbol) } },
+    })).map(p => [p.symbol, p.price])
+  )
+
+  const updates: Array<{ symbol: string; price: number; previousPrice: number | null }> = []
+  const events: Array<{ type: 'price'; data: MarketPriceInput & { previousPrice: number | null; updatedAt: string } }> = []
+  for (const { symbol, ...data } of prices) {
+    try {
+      await db.marketPrice.upsert({
+        where: { symbol },
+        update: { ...data, updatedAt: new Date() },
+        create: { symbol, ...data },
+      })
+      updates.push({ symbol, price: data.price, previousPrice: previous.get(symbol) ?? null })
+      events.push({
+        type: 'price',
+        data: { symbol, ...data, previousPrice: previous.get(symbol) ?? null, updatedAt: new Date().toISOString() },
+      })
+    } catch (dbError) {
+      console.error(`DB error storing price for ${symbol}:`, dbError)
+    }
+  }
+
+  await publishStreamEvents(events)
+
+  let alerts: AlertEvent[] = []
+  try {
+    alerts = await evaluateAlerts(updates)
+  } catch (error) {
+    console.error('Error evaluating alerts:', error)
+  }
+
+  const inserted = updates.filter(u => u.previousPrice === null).length
+  return { stored: updates.length, inserted, alerts }
+}
@@ -0,0 +1,44 @@
+/// <reference types="bun-types" />
+
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { parseNbkRates } from '@/lib/nbk-rates'
+
+function fixture(name: string): string {
+  return readFileSync(path.join(process.cwd(), 'fixtures', 'nbk', name), 'utf-8')
+}
+
+describe('parseNbkRates', () => {
+  test('reads the publication date and every currency', () => {
+    const { date, rates } = parseNbkRates(fixture('2026-10-16.xml'))
+    expect(date).toBe('2026-10-16')
+    expect(rates.map(r => r.currency)).toEqual(['AUD', 'GBP', 'USD', 'EUR', 'CNY', 'JPY', 'RUB'])
+    expect(rates.find(r => r.currency === 'USD')).toEqual({
+      currency: 'USD',
+      name: 'ДОЛЛАР США',
+      rate: 477.92,
+      quant: 1,
+      change: 0.64,
+    })
+  })
+
+  test('divides the rate by quant', () => {
+    const jpy = parseNbkRates(fixture('2026-10-16.xml')).rates.find(r => r.currency === 'JPY')!
+    expect(jpy.quant).toBe(10)
+    expect(jpy.rate).toBeCloseTo(3.208)
+  })
+
+  test('accepts decimal commas and drops unreadable items', () => {
+    const { rates } = parseNbkRates(`<rates><date>01.02.2026</date>
+      <item><title>usd</title><description>480,5</description><quant>1</quant></item>
+      <item><title>EUR</title><description>n/a</description><quant>1</quant></item>
+      <item><title>CNY</title><description>-1</description></item>
+    </rates>`)
+    expect(rates).toEqual([{ currency: 'USD', name: 'usd', rate: 480.5, quant: 1, change: null }])
+  })
+
+  test('rejects a document without a valid date', () => {
+    expect(() => parseNbkRates('<rates><date>2026-02-01</date></rates>')).toThrow('no valid <date>')
+  })
+})
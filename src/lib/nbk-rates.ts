@@ -0,0 +1,97 @@
+// National Bank of Kazakhstan official rates
+// Parses the daily rates XML (get_rates.cfm?fdate=DD.MM.YYYY). Each <item>
+// gives the tenge price of `quant` units of a currency.
+//
+// Set NBK_RATES_FIXTURES to a directory of YYYY-MM-DD.xml files to read
+// those instead of the live feed; the newest file on or before the requested
+// date is used.
+
+import { readdir, readFile } from 'fs/promises'
+import path from 'path'
+import { upstream } from '@/lib/http-client'
+
+const NBK_RATES_URL = process.env.NBK_RATES_URL || 'https://nationalbank.kz/rss/get_rates.cfm'
+const NBK_RATES_FIXTURES = process.env.NBK_RATES_FIXTURES
+
+export interface NbkRate {
+  currency: string
+  name: string
+  // Tenge per single unit, already divided by `quant`
+  rate: number
+  quant: number
+  change: number | null
+}
+
+export interface NbkRates {
+  // Publication date as YYYY-MM-DD
+  date: string
+  rates: NbkRate[]
+}
+
+function tag(xml: string, name: string): string | null {
+  const match = xml.match(new RegExp(`<${name}>\\s*([\\s\\S]*?)\\s*</${name}>`))
+  return match ? match[1] : null
+}
+
+function parseNumber(value: string | null): number | null {
+  if (value === null) return null
+  const number = Number(value.replace(',', '.'))
+  return Number.isFinite(number) ? number : null
+}
+
+// DD.MM.YYYY -> YYYY-MM-DD
+function parseNbkDate(value: string): string | null {
+  const match = value.match(/^(\d{2})\.(\d{2})\.(\d{4})$/)
+  return match ? `${match[3]}-${match[2]}-${match[1]}` : null
+}
+
+function toNbkDate(date: Date): string {
+  const [year, month, day] = date.toISOString().slice(0, 10).split('-')
+  return `${day}.${month}.${year}`
+}
+
+// Parse the rates document; items with an unreadable rate are dropped
+export function parseNbkRates(xml: string): NbkRates {
+  const date = parseNbkDate(tag(xml, 'date') || '')
+  if (!date) {
+    throw new Error('NBK rates XML has no valid <date>')
+  }
+
+  const rates: NbkRate[] = []
+  for (const [, item] of xml.matchAll(/<item>([\s\S]*?)<\/item>/g)) {
+    const currency = tag(item, 'title')
+    const value = parseNumber(tag(item, 'description'))
+    const quant = parseNumber(tag(item, 'quant')) || 1
+    if (!currency || !value || value <= 0) continue
+
+    rates.push({
+      currency: currency.toUpperCase(),
+      name: tag(item, 'fullname') || currency,
+      rate: value / quant,
+      quant,
+      change: parseNumber(tag(item, 'change')),
+    })
+  }
+
+  return { date, rates }
+}
+
+async function readFixtureRates(dir: string, date: Date): Promise<string | null> {
+  const wanted = `${date.toISOString().slice(0, 10)}.xml`
+  const files = (await readdir(dir)).filter(f => /^\d{4}-\d{2}-\d{2}\.xml$/.test(f) && f <= wanted).sort()
+  const file = files[files.length - 1]
+  return file ? readFile(path.join(dir, file), 'utf-8') : null
+}
+
+// Official rates published for `date` (today by default), null when unavailable
+export async function fetchNbkRates(date: Date = new Date()): Promise<NbkRates | null> {
+  try {
+    const xml = NBK_RATES_FIXTURES
+      ? await readFixtureRates(NBK_RATES_FIXTURES, date)
+      : await upstream('nbk').fetchText(`${NBK_RATES_URL}?fdate=${toNbkDate(date)}`)
+    return xml ? parseNbkRates(xml) : null
+  } catch (error) {
+    console.error('Error fetching NBK rates:', error)
+    return null
+  }
+}
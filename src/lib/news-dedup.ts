@@ -0,0 +1,132 @@
+// News deduplication
+// The same story reaches us under tracking-parameter and AMP variants of one
+// URL, and as syndicated copies on other sites. URLs are canonicalized before
+// storage; near-duplicate articles are found by comparing MinHash signatures
+// of their title and summary word shingles.
+
+// Query parameters that only track the click
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'mc_cid', 'mc_eid', 'ref', 'ref_src', 'cmpid',
+  'guccounter', 'guce_referrer', 'guce_referrer_sig', 'ocid', 'amp', 'outputtype',
+])
+
+// Canonical form of an article URL: https, lowercase host without www/amp,
+// no fragment, tracking parameters or AMP path, remaining parameters sorted
+// and no trailing slash
+export function canonicalizeUrl(raw: string): string {
+  let url: URL
+  try {
+    url = new URL(raw.trim())
+  } catch {
+    return raw.trim()
+  }
+
+  url.protocol = 'https:'
+  url.hash = ''
+  url.hostname = url.hostname.toLowerCase().replace(/^(www|amp|m)\./, '')
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([key]) => !key.toLowerCase().startsWith('utm_') && !TRACKING_PARAMS.has(key.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b))
+  url.search = new URLSearchParams(params).toString()
+
+  url.pathname = url.pathname
+    .replace(/\/amp(\/|$)/i, '/')
+    .replace(/\.amp(\.html?)?$/i, (_, ext) => ext || '')
+    .replace(/\/+$/, '')
+
+  return url.toString().replace(/\/(\?|$)/, '$1')
+}
+
+// Words of a text, lowercased with punctuation dropped
+function words(text: string): string[] {
+  return text.toLowerCase().normalize('NFKC').split(/[^\p{L}\p{N}$%.]+/u)
+    .map(word => word.replace(/^\.+|\.+$/g, ''))
+    .filter(Boolean)
+}
+
+// Syndicated titles often end with the site name: "... - CoinDesk", "... | Reuters"
+function stripSiteSuffix(title: string): string {
+  const match = title.match(/^(.*\S)\s+[|\-–—]\s+([^|\-–—]+)$/)
+  if (match && match[2].trim().split(/\s+/).length <= 4 && words(match[1]).length >= 4) return match[1]
+  return title
+}
+
+// Overlapping runs of `size` words; shorter texts are one shingle
+function shingles(tokens: string[], size: number): Set<string> {
+  if (tokens.length <= size) return new Set(tokens.length > 0 ? [tokens.join(' ')] : [])
+  const result = new Set<string>()
+  for (let i = 0; i + size <= tokens.length; i++) {
+    result.add(tokens.slice(i, i + size).join(' '))
+  }
+  return result
+}
+
+// 32-bit FNV-1a
+function hashString(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Murmur3 finalizer; a bijection on 32-bit integers
+function mix(value: number): number {
+  let h = value
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h >>> 0
+}
+
+const SIGNATURE_SIZE = 64
+
+// One seed per hash function, fixed so stored signatures stay comparable
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix(i + 1))
+
+function minhash(set: Set<string>): number[] | null {
+  if (set.size === 0) return null
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff)
+  for (const shingle of set) {
+    const base = hashString(shingle)
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix(base ^ SEEDS[i])
+      if (value < signature[i]) signature[i] = value
+    }
+  }
+  return signature
+}
+
+// Estimated Jaccard similarity of the shingle sets behind two signatures
+export function similarity(a: number[], b: number[]): number {
+  let same = 0
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    if (a[i] === b[i]) same++
+  }
+  return same / SIGNATURE_SIZE
+}
+
+export interface NewsSignature {
+  title: number[] | null
+  summary: number[] | null
+}
+
+// Titles are short, so they use word pairs; summaries use triples
+export function newsSignature(article: { title: string; summary?: string | null }): NewsSignature {
+  return {
+    title: minhash(shingles(words(stripSiteSuffix(article.title)), 2)),
+    summary: article.summary ? minhash(shingles(words(article.summary), 3)) : null,
+  }
+}
+
+// Articles this similar in title or summary are treated as one story
+export const DUPLICATE_THRESHOLD = 0.6
+
+export function isNearDuplicate(a: NewsSignature, b: NewsSignature): boolean {
+  if (a.title && b.title && similarity(a.title, b.title) >= DUPLICATE_THRESHOLD) return true
+  return !!(a.summary && b.summary && similarity(a.summary, b.summary) >= DUPLICATE_THRESHOLD)
+}
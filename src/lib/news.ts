@@ -0,0 +1,159 @@
+// CryptoNews writes and reads
+// Articles are stored by canonical URL, tagged with the assets they mention,
+// scored for sentiment and grouped into NewsClusters with their near duplicates, so the News tab
+// shows each story once with the other sources that carried it.
+
+import type { CryptoNews } from '@prisma/client'
+import { db } from '@/lib/db'
+import { publishStreamEvents, newsEvent } from '@/lib/stream-events'
+import { canonicalizeUrl, newsSignature, isNearDuplicate, type NewsSignature } from '@/lib/news-dedup'
+import { getEntityDictionary, tagEntities } from '@/lib/entity-tagger'
+import { ensureSearchIndex } from '@/lib/search'
+import { scoreSentiment } from '@/lib/sentiment'
+import type { SearchResult } from '@/lib/web-search'
+
+export interface NewsInput {
+  title: string
+  summary: string | null
+  source: string | null
+  url: string
+  category: string
+  publishedAt: Date
+}
+
+export interface NewsStory {
+  id: string
+  title: string
+  summary: string | null
+  source: string | null
+  url: string
+  category: string
+  publishedAt: string
+  sentiment: string | null
+  sentimentScore: number | null
+  sentimentConfidence: number | null
+  // Assets the story mentions, most mentioned first
+  symbols: string[]
+  // Other sources that reported the same story
+  sources: string[]
+  alsoReportedBy: number
+}
+
+// Articles only join clusters that saw a new article this recently
+const CLUSTER_WINDOW_MS = 3 * 24 * 60 * 60 * 1000
+
+export function newsFromSearch(item: SearchResult, category: string): NewsInput {
+  return {
+    title: item.name || item.snippet?.slice(0, 100) || 'Untitled',
+    summary: item.snippet || null,
+    source: item.host_name || null,
+    url: item.url,
+    category,
+    publishedAt: new Date(item.date || new Date()),
+  }
+}
+
+// Upsert articles by canonical URL and (re)tag their assets and sentiment. New articles join
+// the recent cluster they nearly duplicate or start their own; a news event is
+// published for each.
+export async function storeNews(items: NewsInput[]): Promise<{ created: CryptoNews[]; updated: number; failed: number; lastError: unknown }> {
+  // The search triggers write to news_fts, which must exist
+  await ensureSearchIndex()
+  const clusters: Array<{ id: string; signature: NewsSignature }> = (await db.newsCluster.findMany({
+    where: { updatedAt: { gte: new Date(Date.now() - CLUSTER_WINDOW_MS) } },
+    select: { id: true, signature: true },
+  })).map(c => ({ id: c.id, signature: JSON.parse(c.signature) as NewsSignature }))
+  const dictionary = await getEntityDictionary()
+
+  const created: CryptoNews[] = []
+  let updated = 0
+  let failed = 0
+  let lastError: unknown = null
+
+  for (const { url: rawUrl, ...item } of items) {
+    const url = canonicalizeUrl(rawUrl)
+    const text = `${item.title}. ${item.summary ?? ''}`
+    const tags = tagEntities(text, dictionary)
+    const sentiment = scoreSentiment(text)
+    const data = {
+      ...item,
+      sentiment: sentiment.label,
+      sentimentScore: sentiment.score,
+      sentimentConfidence: sentiment.confidence,
+    }
+    try {
+      const existing = await db.cryptoNews.findUnique({ where: { url } })
+      if (existing) {
+        await db.cryptoNews.update({
+          where: { url },
+          data: { ...data, symbols: { deleteMany: {}, create: tags } },
+        })
+        updated++
+        continue
+      }
+
+      const signature = newsSignature(data)
+      const match = clusters.find(c => isNearDuplicate(signature, c.signature))
+      let clusterId: string
+      if (match) {
+        clusterId = match.id
+        await db.newsCluster.update({ where: { id: clusterId }, data: { updatedAt: new Date() } })
+      } else {
+        clusterId = (await db.newsCluster.create({ data: { signature: JSON.stringify(signature) } })).id
+        clusters.push({ id: clusterId, signature })
+      }
+
+      created.push(await db.cryptoNews.create({
+        data: { ...data, url, clusterId, symbols: { create: tags } },
+      }))
+    } catch (dbError) {
+      console.error(`DB error storing news ${url}:`, dbError)
+      failed++
+      lastError = dbError
+    }
+  }
+
+  await publishStreamEvents(created.map(newsEvent))
+  return { created, updated, failed, lastError }
+}
+
+type ArticleWithSymbols = CryptoNews & { symbols: Array<{ symbol: string; mentions: number }> }
+
+// Latest stories, one per cluster, optionally only those mentioning `symbol`.
+// The cluster's first article stands for the story and the rest are counted
+// as other sources.
+export async function getNewsStories(options: { limit?: number; symbol?: string } = {}): Promise<NewsStory[]> {
+  const limit = options.limit ?? 20
+  const articles = await db.cryptoNews.findMany({
+    where: options.symbol ? { symbols: { some: { symbol: options.symbol } } } : undefined,
+    include: { symbols: { orderBy: { mentions: 'desc' } } },
+    orderBy: { publishedAt: 'desc' },
+    take: limit * 5,
+  })
+
+  const groups = new Map<string, ArticleWithSymbols[]>()
+  for (const article of articles) {
+    const key = article.clusterId ?? article.id
+    groups.set(key, [...(groups.get(key) ?? []), article])
+  }
+
+  return Array.from(groups.values()).slice(0, limit).map(group => {
+    const [lead, ...others] = [...group].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    const sources = Array.from(new Set(others.flatMap(a => a.source && a.source !== lead.source ? [a.source] : [])))
+    return {
+      id: lead.id,
+      title: lead.title,
+      summary: lead.summary,
+      source: lead.source,
+      url: lead.url,
+      category: lead.category,
+      publishedAt: lead.publishedAt.toISOString(),
+      sentiment: lead.sentiment,
+      sentimentScore: lead.sentimentScore,
+      sentimentConfidence: lead.sentimentConfidence,
+      symbols: lead.symbols.map(s => s.symbol),
+      sources,
+      alsoReportedBy: sources.length,
+    }
+  })
+}
@@ -0,0 +1,175 @@
+// Portfolio accounting
+// Holdings use the average cost method: sells and outgoing transfers remove
+// cost at the running average, sells realise the difference as P&L.
+// Values are kept in USD and converted to tenge with the ingested USDKZT rate.
+
+import type { Prisma, Transaction } from '@prisma/client'
+import { db } from '@/lib/db'
+import { getInstruments } from '@/lib/instruments'
+
+export const TRANSACTION_TYPES = ['buy', 'sell', 'transfer_in', 'transfer_out'] as const
+export type TransactionType = typeof TRANSACTION_TYPES[number]
+
+type TransactionInput = Pick<Transaction, 'type' | 'quantity' | 'price' | 'fee' | 'executedAt'>
+
+interface Position {
+  quantity: number
+  costBasis: number
+  realizedPnl: number
+}
+
+// Quantities below this are treated as a closed position
+const EPSILON = 1e-9
+
+// Replay transactions in execution order; fails if a sell or transfer out
+// would take the position below zero
+export function replayTransactions(transactions: TransactionInput[]): Position | { error: string } {
+  const position: Position = { quantity: 0, costBasis: 0, realizedPnl: 0 }
+  const ordered = [...transactions].sort((a, b) => a.executedAt.getTime() - b.executedAt.getTime())
+
+  for (const tx of ordered) {
+    const price = tx.price ?? 0
+    switch (tx.type) {
+      case 'buy':
+      case 'transfer_in':
+        position.quantity += tx.quantity
+        position.costBasis += tx.quantity * price + (tx.type === 'buy' ? tx.fee : 0)
+        break
+      case 'sell':
+      case 'transfer_out': {
+        if (tx.quantity > position.quantity + EPSILON) {
+          return { error: `Cannot ${tx.type.replace('_', ' ')} ${tx.quantity}: only ${position.quantity} held on ${tx.executedAt.toISOString()}` }
+        }
+        const averageCost = position.quantity > 0 ? position.costBasis / position.quantity : 0
+        const removedCost = averageCost * tx.quantity
+        if (tx.type === 'sell') {
+          position.realizedPnl += tx.quantity * price - tx.fee - removedCost
+        }
+        position.quantity -= tx.quantity
+        position.costBasis -= removedCost
+        if (position.quantity < EPSILON) {
+          position.quantity = 0
+          position.costBasis = 0
+        }
+        break
+      }
+    }
+  }
+  return position
+}
+
+type NewTransaction = Pick<Transaction, 'portfolioId' | 'symbol' | 'type' | 'quantity' | 'price' | 'fee' | 'executedAt'> & {
+  note?: string
+}
+
+// Store the holding a replayed position adds up to; none once no transactions remain
+async function storeHolding(client: Prisma.TransactionClient, portfolioId: string, symbol: string, position: Position | null) {
+  if (!position) {
+    await client.holding.deleteMany({ where: { portfolioId, symbol } })
+    return
+  }
+  await client.holding.upsert({
+    where: { portfolioId_symbol: { portfolioId, symbol } },
+    update: position,
+    create: { portfolioId, symbol, ...position },
+  })
+}
+
+// Record a transaction and rebuild its holding in one database transaction.
+// The position is replayed first, and nothing is written if it would go negative.
+export async function recordTransaction(data: NewTransaction): Promise<{ transaction?: Transaction; error?: string }> {
+  return db.$transaction(async tx => {
+    const existing = await tx.transaction.findMany({ where: { portfolioId: data.portfolioId, symbol: data.symbol } })
+    const position = replayTransactions([...existing, data])
+    if ('error' in position) return { error: position.error }
+
+    const transaction = await tx.transaction.create({ data })
+    await storeHolding(tx, data.portfolioId, data.symbol, position)
+    return { transaction }
+  })
+}
+
+// Delete a transaction and rebuild its holding in one database transaction.
+// Removing an earlier buy can strand a later sell, so that is checked first.
+export async function deleteTransaction(transaction: Transaction): Promise<{ error?: string }> {
+  const { portfolioId, symbol } = transaction
+  return db.$transaction(async tx => {
+    const remaining = (await tx.transaction.findMany({ where: { portfolioId, symbol } }))
+      .filter(t => t.id !== transaction.id)
+    const position = replayTransactions(remaining)
+    if ('error' in position) return { error: position.error }
+
+    await tx.transaction.delete({ where: { id: transaction.id } })
+    await storeHolding(tx, portfolioId, symbol, remaining.length > 0 ? position : null)
+    return {}
+  })
+}
+
+// Current USD/KZT rate from the ingested market prices
+export async function getUsdKztRate(): Promise<{ rate: number; updatedAt: Date } | null> {
+  const price = await db.marketPrice.findUnique({ where: { symbol: 'USDKZT' } })
+  return price ? { rate: price.price, updatedAt: price.updatedAt } : null
+}
+
+function withKzt(usd: number | null, rate: number | null) {
+  return { usd, kzt: usd !== null && rate !== null ? usd * rate : null }
+}
+
+// Value every holding with the latest MarketPrice and total the portfolio
+export async function valuePortfolio(portfolioId: string) {
+  const [holdings, instruments, fx] = await Promise.all([
+    db.holding.findMany({ where: { portfolioId }, orderBy: { symbol: 'asc' } }),
+    getInstruments({ includeDisabled: true }),
+    getUsdKztRate(),
+  ])
+  const prices = new Map(
+    (await db.marketPrice.findMany({
+      where: { symbol: { in: holdings.map(h => h.symbol) } },
+    })).map(p => [p.symbol, p])
+  )
+  const rate = fx?.rate ?? null
+
+  const rows = holdings.map(holding => {
+    const instrument = instruments.find(i => i.symbol === holding.symbol)
+    const marketPrice = prices.get(holding.symbol)
+
+    // Instruments quoted in tenge are brought back to USD first
+    let priceUsd: number | null = marketPrice?.price ?? null
+    if (priceUsd !== null && instrument?.quoteCurrency === 'KZT') {
+      priceUsd = rate ? priceUsd / rate : null
+    }
+
+    const marketValue = priceUsd !== null ? priceUsd * holding.quantity : null
+    const unrealizedPnl = marketValue !== null ? marketValue - holding.costBasis : null
+
+    return {
+      symbol: holding.symbol,
+      name: instrument?.name || holding.symbol,
+      quantity: holding.quantity,
+      averageCost: holding.quantity > 0 ? holding.costBasis / holding.quantity : null,
+      price: withKzt(priceUsd, rate),
+      costBasis: withKzt(holding.costBasis, rate),
+      marketValue: withKzt(marketValue, rate),
+      unrealizedPnl: withKzt(unrealizedPnl, rate),
+      unrealizedPnlPercent: unrealizedPnl !== null && holding.costBasis > 0 ? (unrealizedPnl / holding.costBasis) * 100 : null,
+      realizedPnl: withKzt(holding.realizedPnl, rate),
+      priceUpdatedAt: marketPrice?.updatedAt.toISOString() || null,
+    }
+  })
+
+  const sum = (values: Array<number | null>) =>
+    values.some(v => v === null) ? null : values.reduce<number>((total, v) => total + (v as number), 0)
+
+  const totals = {
+    costBasis: withKzt(sum(rows.map(r => r.costBasis.usd)), rate),
+    marketValue: withKzt(sum(rows.map(r => r.marketValue.usd)), rate),
+    unrealizedPnl: withKzt(sum(rows.map(r => r.unrealizedPnl.usd)), rate),
+    realizedPnl: withKzt(sum(rows.map(r => r.realizedPnl.usd)), rate),
+  }
+
+  return {
+    holdings: rows,
+    totals,
+    fx: fx ? { pair: 'USDKZT', rate: fx.rate, updatedAt: fx.updatedAt.toISOString() } : null,
+  }
+}
@@ -0,0 +1,60 @@
+// File-backed provider
+// Serves quotes, candles and news from JSON fixtures on disk, for offline
+// development and for pinning asset classes to known data
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { MarketDataProvider, QuoteResponse, HistoryData, NewsItem, SymbolMatch } from './types';
+
+const FIXTURE_DIR = process.env.MARKET_DATA_FIXTURES || path.join(process.cwd(), 'fixtures', 'market-data');
+
+// history.json is keyed by ticker, then by interval
+type HistoryFixture = Record<string, Record<string, HistoryData[]>>;
+
+// news.json items may be scoped to a ticker
+type NewsFixture = Array<NewsItem & { ticker?: string }>;
+
+async function readFixture<T>(file: string, fallback: T): Promise<T> {
+  try {
+    const raw = await readFile(path.join(FIXTURE_DIR, file), 'utf-8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`Error reading market data fixture ${file}:`, error);
+    return fallback;
+  }
+}
+
+export const fixtureProvider: MarketDataProvider = {
+  name: 'fixture',
+
+  async getQuote(ticker) {
+    const quotes = await readFixture<QuoteResponse[]>('quotes.json', []);
+    return quotes.find(q => q.ticker === ticker) || null;
+  },
+
+  async getSnapshots(tickers) {
+    const quotes = await readFixture<QuoteResponse[]>('quotes.json', []);
+    return quotes.filter(q => tickers.includes(q.ticker));
+  },
+
+  async getHistory(symbol, interval = '1d', limit) {
+    const history = await readFixture<HistoryFixture>('history.json', {});
+    const candles = history[symbol]?.[interval] || [];
+    return limit ? candles.slice(-limit) : candles;
+  },
+
+  async getNews(ticker) {
+    const news = await readFixture<NewsFixture>('news.json', []);
+    return news
+      .filter(item => !ticker || !item.ticker || item.ticker === ticker)
+      .map(({ ticker: _ticker, ...item }) => item);
+  },
+
+  async searchSymbols(query) {
+    const quotes = await readFixture<QuoteResponse[]>('quotes.json', []);
+    const needle = query.toLowerCase();
+    return quotes
+      .filter(q => q.ticker.toLowerCase().includes(needle) || q.name.toLowerCase().includes(needle))
+      .map((q): SymbolMatch => ({ ticker: q.ticker, name: q.name }));
+  },
+};
@@ -0,0 +1,168 @@
+// Finance API gateway provider
+// Talks to the Finance API through the internal gateway
+
+import type { MarketDataProvider, QuoteResponse, HistoryData, NewsItem, SymbolMatch } from './types';
+import { z } from 'zod';
+import { upstream, type CallOptions } from '@/lib/http-client';
+
+const GATEWAY_URL = process.env.GATEWAY_URL || 'https://internal-api.z.ai';
+const API_PREFIX = process.env.API_PREFIX || '/external/finance';
+
+// Timeouts, retries and the circuit breaker come from the shared finance upstream;
+// while its breaker is open calls fail fast and the router falls back
+async function fetchFinanceAPI(endpoint: string, options?: CallOptions) {
+  const url = `${GATEWAY_URL}${API_PREFIX}${endpoint}`;
+  return upstream('finance').fetchJson(url, {
+    headers: {
+      'X-Z-AI-From': 'Z',
+    },
+  }, options);
+}
+
+// Numbers sometimes arrive as strings
+const numeric = z.preprocess(
+  value => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value),
+  z.number().nullish()
+);
+
+// Quote payload as the gateway sends it; unknown fields are ignored
+const gatewayQuoteSchema = z.object({
+  symbol: z.string().min(1),
+  shortName: z.string().nullish(),
+  longName: z.string().nullish(),
+  regularMarketPrice: numeric,
+  price: numeric,
+  regularMarketChange: numeric,
+  change: numeric,
+  regularMarketChangePercent: numeric,
+  changePercent: numeric,
+  regularMarketDayHigh: numeric,
+  high: numeric,
+  regularMarketDayLow: numeric,
+  low: numeric,
+  regularMarketOpen: numeric,
+  open: numeric,
+  regularMarketVolume: numeric,
+  volume: numeric,
+  marketCap: numeric,
+});
+
+type GatewayQuote = z.infer<typeof gatewayQuoteSchema>;
+
+const gatewayCandleSchema = z.object({
+  timestamp: numeric.pipe(z.number()),
+  open: numeric.pipe(z.number()),
+  high: numeric.pipe(z.number()),
+  low: numeric.pipe(z.number()),
+  close: numeric.pipe(z.number()),
+  volume: numeric.transform(v => v ?? 0),
+});
+
+// Items that fail their schema are dropped and logged
+function parseItems<T>(items: unknown[], schema: z.ZodType<T>, label: string): T[] {
+  return items.flatMap(item => {
+    const parsed = schema.safeParse(item);
+    if (parsed.success) return [parsed.data];
+    console.warn(`Dropping malformed ${label}:`, parsed.error.issues[0]?.message, JSON.stringify(item)?.slice(0, 200));
+    return [];
+  });
+}
+
+// Map a validated payload to a quote. A missing price stays 0 so quote
+// validation rejects it rather than it being stored.
+function parseQuoteData(data: GatewayQuote): QuoteResponse {
+  return {
+    ticker: data.symbol,
+    name: data.shortName || data.longName || data.symbol,
+    price: data.regularMarketPrice ?? data.price ?? 0,
+    change: data.regularMarketChange ?? data.change ?? 0,
+    changePercent: data.regularMarketChangePercent ?? data.changePercent ?? 0,
+    high: data.regularMarketDayHigh ?? data.high ?? 0,
+    low: data.regularMarketDayLow ?? data.low ?? 0,
+    open: data.regularMarketOpen ?? data.open ?? 0,
+    volume: data.regularMarketVolume ?? data.volume ?? 0,
+    marketCap: data.marketCap ?? undefined,
+  };
+}
+
+export const gatewayProvider: MarketDataProvider = {
+  name: 'gateway',
+
+  // Get real-time quote for a single stock
+  async getQuote(ticker, type = 'STOCKS') {
+    try {
+      const data = await fetchFinanceAPI(`/v1/markets/quote?ticker=${ticker}&type=${type}`);
+      const [quote] = parseItems([data], gatewayQuoteSchema, 'quote');
+      if (quote) return parseQuoteData(quote);
+    } catch (error) {
+      console.error(`Error fetching quote for ${ticker}:`, error);
+    }
+    return null;
+  },
+
+  // Get snapshot quotes for multiple stocks
+  async getSnapshots(tickers) {
+    try {
+      const response = await fetchFinanceAPI(`/v1/markets/stock/quotes?ticker=${tickers.join(',')}`);
+      
+      // The API returns data in a 'body' array
+      const body = response.body || response;
+      
+      if (Array.isArray(body) && body.length > 0) {
+        return parseItems(body, gatewayQuoteSchema, 'quote').map(parseQuoteData);
+      }
+    } catch (error) {
+      console.error('Error fetching snapshots:', error);
+    }
+    return [];
+  },
+
+  // Get historical data
+  async getHistory(symbol, interval = '1d', limit) {
+    try {
+      let endpoint = `/v2/markets/stock/history?symbol=${symbol}&interval=${interval}`;
+      if (limit) {
+        endpoint += `&limit=${limit}`;
+      }
+      // Long ranges are slow to build upstream
+      const response = await fetchFinanceAPI(endpoint, { timeoutMs: 20000 });
+      const body = response?.body;
+      return Array.isArray(body) ? parseItems<HistoryData>(body, gatewayCandleSchema, 'candle') : [];
+    } catch (error) {
+      console.error(`Error fetching history for ${symbol}:`, error);
+      return [];
+    }
+  },
+
+  // Get market news
+  async getNews(ticker) {
+    try {
+      let endpoint = '/v1/markets/news';
+      if (ticker) {
+        endpoint += `?ticker=${ticker}`;
+      }
+      const data = await fetchFinanceAPI(endpoint);
+      return (data || []) as NewsItem[];
+    } catch (error) {
+      console.error('Error fetching news:', error);
+      return [];
+    }
+  },
+
+  // Search tickers by symbol or company name
+  async searchSymbols(query) {
+    try {
+      const response = await fetchFinanceAPI(`/v1/markets/search?search=${encodeURIComponent(query)}`);
+      const body = response?.body || [];
+      if (!Array.isArray(body)) return [];
+      return body.map((item: any): SymbolMatch => ({
+        ticker: item.symbol,
+        name: item.name || item.shortname || item.symbol,
+        exchange: item.exchDisp || item.exch || undefined,
+      }));
+    } catch (error) {
+      console.error(`Error searching symbols for ${query}:`, error);
+      return [];
+    }
+  },
+};
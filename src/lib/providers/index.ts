@@ -0,0 +1,151 @@
+// Market data provider registry
+// Routes each ticker to the providers configured for its asset class.
+//
+// Configure with MARKET_DATA_PROVIDERS, e.g.
+//   default=gateway;crypto=gateway,synthetic;forex=fixture
+// Providers listed for a class are tried in order: tickers the first one does
+// not return are asked of the next.
+
+import type { AssetClass, MarketDataProvider, QuoteResponse, HistoryData, NewsItem, SymbolMatch } from './types';
+import { gatewayProvider } from './gateway';
+import { fixtureProvider } from './fixture';
+import { syntheticProvider } from './synthetic';
+
+export type { AssetClass, MarketDataProvider, QuoteResponse, HistoryData, NewsItem, SymbolMatch } from './types';
+
+const providers = new Map<string, MarketDataProvider>([
+  [gatewayProvider.name, gatewayProvider],
+  [fixtureProvider.name, fixtureProvider],
+  [syntheticProvider.name, syntheticProvider],
+]);
+
+type ProviderConfig = Partial<Record<AssetClass | 'default', string[]>>;
+
+function parseProviderConfig(value: string | undefined): ProviderConfig {
+  const config: ProviderConfig = { default: ['gateway'] };
+  if (!value) return config;
+
+  for (const entry of value.split(';')) {
+    const [key, names] = entry.split('=').map(part => part.trim());
+    if (!key || !names) continue;
+    config[key as AssetClass | 'default'] = names.split(',').map(name => name.trim()).filter(Boolean);
+  }
+  return config;
+}
+
+const providerConfig = parseProviderConfig(process.env.MARKET_DATA_PROVIDERS);
+
+// Make a custom provider available to MARKET_DATA_PROVIDERS
+export function registerProvider(provider: MarketDataProvider) {
+  providers.set(provider.name, provider);
+}
+
+// Asset classes registered for known tickers (see src/lib/instruments.ts)
+const knownAssetClasses = new Map<string, AssetClass>();
+
+export function setKnownAssetClasses(classes: Record<string, AssetClass>) {
+  for (const [ticker, assetClass] of Object.entries(classes)) {
+    knownAssetClasses.set(ticker, assetClass);
+  }
+}
+
+// Registered asset class, else a guess from Yahoo-style ticker conventions
+export function inferAssetClass(ticker: string): AssetClass {
+  const known = knownAssetClasses.get(ticker);
+  if (known) return known;
+  if (ticker.startsWith('^')) return 'index';
+  if (ticker.endsWith('=F')) return 'commodity';
+  if (ticker.endsWith('=X')) return 'forex';
+  if (/-(USD|USDT|EUR)$/.test(ticker)) return 'crypto';
+  return 'equity';
+}
+
+function resolveChain(names: string[] | undefined): MarketDataProvider[] {
+  const chain = (names || []).map(name => {
+    const provider = providers.get(name);
+    if (!provider) console.warn(`Unknown market data provider: ${name}`);
+    return provider;
+  });
+  return chain.filter((p): p is MarketDataProvider => !!p);
+}
+
+// Providers to try for a ticker, in order
+export function providersFor(ticker?: string): MarketDataProvider[] {
+  const assetClass = ticker ? inferAssetClass(ticker) : undefined;
+  const chain = resolveChain(assetClass && providerConfig[assetClass]);
+  return chain.length > 0 ? chain : resolveChain(providerConfig.default);
+}
+
+async function firstNonEmpty<T>(
+  chain: MarketDataProvider[],
+  call: (provider: MarketDataProvider) => Promise<T[]>
+): Promise<T[]> {
+  for (const provider of chain) {
+    const result = await call(provider);
+    if (result.length > 0) return result;
+  }
+  return [];
+}
+
+// A provider that dispatches every call through the configured chains
+export const marketData: MarketDataProvider = {
+  name: 'router',
+
+  async getQuote(ticker, type) {
+    for (const provider of providersFor(ticker)) {
+      const quote = await provider.getQuote(ticker, type);
+      if (quote) return quote;
+    }
+    return null;
+  },
+
+  async getSnapshots(tickers) {
+    // Group tickers that share a provider chain so each provider gets one batch
+    const groups = new Map<string, { chain: MarketDataProvider[]; tickers: string[] }>();
+    for (const ticker of tickers) {
+      const chain = providersFor(ticker);
+      const key = chain.map(p => p.name).join(',');
+      const group = groups.get(key) || { chain, tickers: [] };
+      group.tickers.push(ticker);
+      groups.set(key, group);
+    }
+
+    const batches = await Promise.all(
+      Array.from(groups.values()).map(async ({ chain, tickers: pending }) => {
+        const found: QuoteResponse[] = [];
+        let remaining = pending;
+        for (const provider of chain) {
+          if (remaining.length === 0) break;
+          const quotes = await provider.getSnapshots(remaining);
+          found.push(...quotes);
+          const returned = new Set(quotes.map(q => q.ticker));
+          remaining = remaining.filter(t => !returned.has(t));
+        }
+        return found;
+      })
+    );
+    return batches.flat();
+  },
+
+  async getHistory(symbol, interval, limit): Promise<HistoryData[]> {
+    return firstNonEmpty(providersFor(symbol), p => p.getHistory(symbol, interval, limit));
+  },
+
+  async getNews(ticker): Promise<NewsItem[]> {
+    return firstNonEmpty(providersFor(ticker), p => p.getNews(ticker));
+  },
+
+  async searchSymbols(query) {
+    // Ask every configured provider and merge, first provider wins per ticker
+    const names = new Set(Object.values(providerConfig).flat());
+    const matches = new Map<string, SymbolMatch>();
+    for (const provider of resolveChain(Array.from(names))) {
+      for (const match of await provider.searchSymbols(query)) {
+        if (!matches.has(match.ticker)) {
+          matches.set(match.ticker, { assetClass: inferAssetClass(match.ticker), ...match });
+        }
+      }
+    }
+    return Array.from(matches.values());
+  },
+};
@@ -0,0 +1,127 @@
+// Synthetic provider
+// Generates deterministic random-walk prices so the dashboard can run with no
+// upstream at all. The same ticker and time always produce the same price.
+
+import type { MarketDataProvider, QuoteResponse, HistoryData, SymbolMatch } from './types';
+
+const HOUR = 60 * 60 * 1000;
+
+// Anchor price, hourly volatility and display name per known ticker
+const SYNTHETIC_BASES: Record<string, { name: string; price: number; volatility: number }> = {
+  '^GSPC': { name: 'S&P 500', price: 5500, volatility: 0.002 },
+  'GC=F': { name: 'Gold', price: 2400, volatility: 0.002 },
+  'SI=F': { name: 'Silver', price: 29, volatility: 0.004 },
+  'BTC-USD': { name: 'Bitcoin', price: 65000, volatility: 0.006 },
+  'ETH-USD': { name: 'Ethereum', price: 3200, volatility: 0.008 },
+  'KZT=X': { name: 'USD/KZT', price: 480, volatility: 0.0008 },
+  'EURUSD=X': { name: 'EUR/USD', price: 1.08, volatility: 0.0006 },
+  'RUB=X': { name: 'USD/RUB', price: 92, volatility: 0.001 },
+  'CNY=X': { name: 'USD/CNY', price: 7.2, volatility: 0.0004 },
+  'GLD': { name: 'SPDR Gold Shares', price: 220, volatility: 0.002 },
+  'SLV': { name: 'iShares Silver Trust', price: 26, volatility: 0.004 },
+};
+
+const DEFAULT_BASE = { price: 100, volatility: 0.003 };
+
+const INTERVAL_MS: Record<string, number> = {
+  '1h': HOUR,
+  '1d': 24 * HOUR,
+  '1wk': 7 * 24 * HOUR,
+};
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// Uniform number in [-1, 1) derived from the ticker and hour index
+function noise(ticker: string, hour: number): number {
+  let t = (hashString(ticker) ^ Math.imul(hour, 0x9e3779b1)) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return (((t ^ (t >>> 14)) >>> 0) / 4294967296) * 2 - 1;
+}
+
+// Price at a given hour: a slow cycle plus hourly noise around the anchor
+function priceAt(ticker: string, hour: number): number {
+  const base = SYNTHETIC_BASES[ticker] || DEFAULT_BASE;
+  const phase = (hashString(ticker) % 1000) / 1000;
+  const cycle = Math.sin(2 * Math.PI * (hour / (24 * 30) + phase)) * base.volatility * 40;
+  const drift = noise(ticker, hour) * base.volatility;
+  return base.price * (1 + cycle + drift);
+}
+
+function buildCandle(ticker: string, start: number, span: number): HistoryData {
+  const firstHour = Math.floor(start / HOUR);
+  const hours = Math.max(1, Math.round(span / HOUR));
+  const prices: number[] = [];
+  for (let h = 0; h <= hours; h++) {
+    prices.push(priceAt(ticker, firstHour + h));
+  }
+  return {
+    timestamp: Math.floor(start / 1000),
+    open: prices[0],
+    high: Math.max(...prices),
+    low: Math.min(...prices),
+    close: prices[prices.length - 1],
+    volume: Math.round(1e6 * (1 + Math.abs(noise(ticker + ':vol', firstHour)))),
+  };
+}
+
+function buildQuote(ticker: string): QuoteResponse {
+  const hour = Math.floor(Date.now() / HOUR);
+  const price = priceAt(ticker, hour);
+  const previous = priceAt(ticker, hour - 24);
+  const day: number[] = [];
+  for (let h = hour - 24; h <= hour; h++) {
+    day.push(priceAt(ticker, h));
+  }
+  return {
+    ticker,
+    name: SYNTHETIC_BASES[ticker]?.name || ticker,
+    price,
+    change: price - previous,
+    changePercent: ((price - previous) / previous) * 100,
+    high: Math.max(...day),
+    low: Math.min(...day),
+    open: previous,
+    volume: Math.round(2.4e7 * (1 + Math.abs(noise(ticker + ':vol', hour)))),
+  };
+}
+
+export const syntheticProvider: MarketDataProvider = {
+  name: 'synthetic',
+
+  async getQuote(ticker) {
+    return buildQuote(ticker);
+  },
+
+  async getSnapshots(tickers) {
+    return tickers.map(buildQuote);
+  },
+
+  async getHistory(symbol, interval = '1d', limit = 100) {
+    const span = INTERVAL_MS[interval] || INTERVAL_MS['1d'];
+    const lastStart = Math.floor(Date.now() / span) * span;
+    const candles: HistoryData[] = [];
+    for (let i = limit - 1; i >= 0; i--) {
+      candles.push(buildCandle(symbol, lastStart - i * span, span));
+    }
+    return candles;
+  },
+
+  async getNews() {
+    return [];
+  },
+
+  async searchSymbols(query) {
+    const needle = query.toLowerCase();
+    return Object.entries(SYNTHETIC_BASES)
+      .filter(([ticker, base]) => ticker.toLowerCase().includes(needle) || base.name.toLowerCase().includes(needle))
+      .map(([ticker, base]): SymbolMatch => ({ ticker, name: base.name }));
+  },
+};
@@ -0,0 +1,52 @@
+// Shared types for market data providers
+
+export type AssetClass = 'index' | 'commodity' | 'crypto' | 'forex' | 'equity';
+
+export interface QuoteResponse {
+  ticker: string;
+  name: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  high: number;
+  low: number;
+  open: number;
+  volume: number;
+  marketCap?: number;
+}
+
+export interface HistoryData {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface NewsItem {
+  title: string;
+  summary: string;
+  source: string;
+  url: string;
+  publishedAt: string;
+}
+
+export interface SymbolMatch {
+  ticker: string;
+  name: string;
+  assetClass?: AssetClass;
+  exchange?: string;
+}
+
+// A source of quotes, candles and news. Implementations should never throw:
+// failures are logged and reported as empty results, so the registry can
+// fall through to the next provider configured for an asset class.
+export interface MarketDataProvider {
+  readonly name: string;
+  getQuote(ticker: string, type?: string): Promise<QuoteResponse | null>;
+  getSnapshots(tickers: string[]): Promise<QuoteResponse[]>;
+  getHistory(symbol: string, interval?: string, limit?: number): Promise<HistoryData[]>;
+  getNews(ticker?: string): Promise<NewsItem[]>;
+  searchSymbols(query: string): Promise<SymbolMatch[]>;
+}
@@ -0,0 +1,118 @@
+// Quote validation
+// Every quote from a provider is checked before it is cached or stored: the
+// shape must parse, the price must be positive, the day range consistent and
+// the move from the last stored price plausible for the asset class. Failing
+// quotes are quarantined in RejectedQuote instead of reaching MarketPrice.
+
+import { z } from 'zod'
+import type { RejectedQuote } from '@prisma/client'
+import { db } from '@/lib/db'
+import { getInstruments, byProviderTicker } from '@/lib/instruments'
+import { inferAssetClass, type AssetClass, type QuoteResponse } from '@/lib/providers'
+
+// Largest believable move from the last stored price, as a fraction
+const MAX_JUMP: Record<AssetClass, number> = {
+  index: 0.2,
+  forex: 0.2,
+  commodity: 0.3,
+  equity: 0.5,
+  crypto: 0.5,
+}
+
+// Jumps are only checked against prices stored this recently, so a real move
+// during a long outage does not lock the new level out for good
+const JUMP_BASELINE_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+// Providers fill fields they do not have with 0, so only price must be positive
+const quoteSchema = z.object({
+  ticker: z.string().min(1),
+  name: z.string(),
+  price: z.number().positive(),
+  change: z.number(),
+  changePercent: z.number(),
+  high: z.number().nonnegative(),
+  low: z.number().nonnegative(),
+  open: z.number().nonnegative(),
+  volume: z.number().nonnegative(),
+  marketCap: z.number().optional(),
+})
+
+// Reason a quote is implausible, or null when it passes
+export function checkQuote(quote: QuoteResponse, previousPrice: number | null, assetClass: AssetClass): string | null {
+  const parsed = quoteSchema.safeParse(quote)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return `invalid ${issue.path.join('.') || 'quote'}: ${issue.message}`
+  }
+
+  if (quote.high > 0 && quote.low > 0 && quote.high < quote.low) {
+    return `high ${quote.high} below low ${quote.low}`
+  }
+
+  if (previousPrice !== null && previousPrice > 0) {
+    const jump = Math.abs(quote.price / previousPrice - 1)
+    if (jump > MAX_JUMP[assetClass]) {
+      return `moved ${(jump * 100).toFixed(1)}% from ${previousPrice}, limit ${MAX_JUMP[assetClass] * 100}% for ${assetClass}`
+    }
+  }
+  return null
+}
+
+// Drop implausible quotes, recording each one. Jumps are measured against the
+// recent MarketPrice of registered instruments; unregistered tickers only get
+// the shape and range checks.
+export async function screenQuotes(quotes: QuoteResponse[]): Promise<QuoteResponse[]> {
+  if (quotes.length === 0) return quotes
+
+  const instruments = byProviderTicker(await getInstruments({ includeDisabled: true }))
+  const symbols = quotes.flatMap(q => instruments.get(q.ticker)?.symbol ?? [])
+  const previous = new Map(
+    (await db.marketPrice.findMany({
+      where: {
+        symbol: { in: symbols },
+        updatedAt: { gte: new Date(Date.now() - JUMP_BASELINE_MAX_AGE_MS) },
+      },
+    })).map(p => [p.symbol, p.price])
+  )
+
+  const accepted: QuoteResponse[] = []
+  const rejected: Array<Omit<RejectedQuote, 'id' | 'createdAt'>> = []
+  for (const quote of quotes) {
+    const instrument = instruments.get(quote.ticker)
+    const previousPrice = instrument ? previous.get(instrument.symbol) ?? null : null
+    const assetClass = (instrument?.assetClass as AssetClass | undefined) ?? inferAssetClass(quote.ticker)
+
+    const reason = checkQuote(quote, previousPrice, assetClass)
+    if (!reason) {
+      accepted.push(quote)
+      continue
+    }
+    rejected.push({
+      ticker: quote.ticker,
+      symbol: instrument?.symbol ?? null,
+      price: Number.isFinite(quote.price) ? quote.price : null,
+      previousPrice,
+      reason,
+      payload: JSON.stringify(quote),
+    })
+  }
+
+  if (rejected.length > 0) {
+    console.warn('Rejected quotes:', rejected.map(r => `${r.ticker} (${r.reason})`).join(', '))
+    try {
+      await db.rejectedQuote.createMany({ data: rejected })
+    } catch (error) {
+      console.error('Error recording rejected quotes:', error)
+    }
+  }
+  return accepted
+}
+
+// Quarantined quotes, newest first
+export async function getRejectedQuotes(options: { since?: Date; limit?: number } = {}): Promise<RejectedQuote[]> {
+  return db.rejectedQuote.findMany({
+    where: options.since ? { createdAt: { gte: options.since } } : undefined,
+    orderBy: { createdAt: 'desc' },
+    take: options.limit ?? 100,
+  })
+}
@@ -0,0 +1,137 @@
+// Refresh run audit log
+// /api/refresh records a RefreshRun per call and a RefreshStep per step with
+// item counts, upstream latency and the error that stopped it, so a feed that
+// quietly stopped updating can be traced to the run where it started failing.
+
+import type { RefreshRun, RefreshStep } from '@prisma/client'
+import { db } from '@/lib/db'
+
+export type RefreshRunWithSteps = RefreshRun & { steps: RefreshStep[] }
+
+// Runs kept; the prices job alone records one a minute
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+// Counters a step fills in while it runs
+export interface StepTracker {
+  inserted: number
+  updated: number
+  skipped: number
+  // Await an upstream call, adding its time to the step's upstream latency
+  upstream<T>(call: () => Promise<T>): Promise<T>
+}
+
+export async function startRefreshRun(trigger: string): Promise<RefreshRun> {
+  return db.refreshRun.create({ data: { trigger } })
+}
+
+// Run one step, recording its outcome. Errors are logged and stored rather
+// than thrown so the remaining steps still run; returns whether it succeeded.
+export async function runRefreshStep(
+  run: RefreshRun,
+  name: string,
+  step: (tracker: StepTracker) => Promise<void>
+): Promise<boolean> {
+  const startedAt = new Date()
+  let upstreamMs: number | null = null
+  const tracker: StepTracker = {
+    inserted: 0,
+    updated: 0,
+    skipped: 0,
+    async upstream(call) {
+      const started = Date.now()
+      try {
+        return await call()
+      } finally {
+        upstreamMs = (upstreamMs ?? 0) + Date.now() - started
+      }
+    },
+  }
+
+  let error: string | null = null
+  try {
+    await step(tracker)
+  } catch (err) {
+    console.error(`Error refreshing ${name}:`, err)
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  const finishedAt = new Date()
+  try {
+    await db.refreshStep.create({
+      data: {
+        runId: run.id,
+        name,
+        status: error ? 'failed' : 'success',
+        inserted: tracker.inserted,
+        updated: tracker.updated,
+        skipped: tracker.skipped,
+        upstreamMs,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        error,
+        startedAt,
+        finishedAt,
+      },
+    })
+  } catch (dbError) {
+    console.error(`Error recording refresh step ${name}:`, dbError)
+  }
+  return error === null
+}
+
+// Close a run with an overall status from its steps, then drop old runs
+export async function finishRefreshRun(run: RefreshRun, error?: string): Promise<RefreshRunWithSteps> {
+  const steps = await db.refreshStep.findMany({ where: { runId: run.id } })
+  const failed = steps.filter(s => s.status === 'failed').length
+  const status = error || (steps.length > 0 && failed === steps.length)
+    ? 'failed'
+    : failed > 0 ? 'partial' : 'success'
+
+  const finishedAt = new Date()
+  const finished = await db.refreshRun.update({
+    where: { id: run.id },
+    data: { status, error, finishedAt, durationMs: finishedAt.getTime() - run.startedAt.getTime() },
+    include: { steps: { orderBy: { startedAt: 'asc' } } },
+  })
+
+  await db.refreshRun.deleteMany({
+    where: { startedAt: { lt: new Date(Date.now() - RETENTION_MS) } },
+  })
+  return finished
+}
+
+// Latest runs first. With `step`, only runs that ran that step, and `status`
+// then applies to the step rather than the run (e.g. step=news&status=failed).
+export async function getRefreshRuns(options: {
+  step?: string
+  status?: string
+  trigger?: string
+  limit?: number
+} = {}): Promise<RefreshRunWithSteps[]> {
+  const { step, status, trigger } = options
+  return db.refreshRun.findMany({
+    where: {
+      ...(step ? { steps: { some: { name: step, ...(status ? { status } : {}) } } } : {}),
+      ...(!step && status ? { status } : {}),
+      ...(trigger ? { trigger } : {}),
+    },
+    include: { steps: { orderBy: { startedAt: 'asc' } } },
+    orderBy: { startedAt: 'desc' },
+    take: options.limit ?? 50,
+  })
+}
+
+// When each step last succeeded and last failed, with the failure's error
+export async function getStepHealth(names: readonly string[]) {
+  return Promise.all(names.map(async name => {
+    const [lastSuccess, lastFailure] = await Promise.all([
+      db.refreshStep.findFirst({ where: { name, status: 'success' }, orderBy: { startedAt: 'desc' } }),
+      db.refreshStep.findFirst({ where: { name, status: 'failed' }, orderBy: { startedAt: 'desc' } }),
+    ])
+    return {
+      name,
+      lastSuccessAt: lastSuccess?.startedAt ?? null,
+      lastFailureAt: lastFailure?.startedAt ?? null,
+      lastError: lastFailure?.error ?? null,
+    }
+  }))
+}
@@ -0,0 +1,227 @@
+// Full-text search over stored news and analysis
+// SQLite FTS5 tables mirror CryptoNews (title, summary) and Analysis (title,
+// content). Prisma cannot declare virtual tables, so they and the triggers
+// that keep them in sync are created by ensureSearchIndex(), which runs before
+// every search and every news or analysis write. `prisma db push` drops the
+// tables but keeps the triggers, and writes fail until they are recreated.
+
+import { db } from '@/lib/db'
+
+export const SEARCH_TYPES = ['news', 'analysis', 'prediction'] as const
+export type SearchType = typeof SEARCH_TYPES[number]
+
+export interface SearchOptions {
+  q: string
+  type?: SearchType
+  symbol?: string
+  from?: Date
+  to?: Date
+  limit?: number
+}
+
+export interface SearchHit {
+  id: string
+  type: SearchType
+  title: string
+  // HTML-escaped, with matched terms wrapped in <mark>
+  titleHighlight: string
+  snippet: string
+  url: string | null
+  source: string | null
+  symbol: string | null
+  sentiment: string | null
+  date: string
+  score: number
+}
+
+// FTS statements, run in order; every one is idempotent
+const SCHEMA = [
+  `CREATE VIRTUAL TABLE IF NOT EXISTS news_fts USING fts5(id UNINDEXED, title, summary, tokenize = 'porter unicode61')`,
+  `CREATE TRIGGER IF NOT EXISTS news_fts_insert AFTER INSERT ON CryptoNews BEGIN
+    INSERT INTO news_fts (id, title, summary) VALUES (new.id, new.title, coalesce(new.summary, ''));
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS news_fts_update AFTER UPDATE ON CryptoNews BEGIN
+    DELETE FROM news_fts WHERE id = old.id;
+    INSERT INTO news_fts (id, title, summary) VALUES (new.id, new.title, coalesce(new.summary, ''));
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS news_fts_delete AFTER DELETE ON CryptoNews BEGIN
+    DELETE FROM news_fts WHERE id = old.id;
+  END`,
+  `CREATE VIRTUAL TABLE IF NOT EXISTS analysis_fts USING fts5(id UNINDEXED, title, content, tokenize = 'porter unicode61')`,
+  `CREATE TRIGGER IF NOT EXISTS analysis_fts_insert AFTER INSERT ON Analysis BEGIN
+    INSERT INTO analysis_fts (id, title, content) VALUES (new.id, new.title, new.content);
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS analysis_fts_update AFTER UPDATE ON Analysis BEGIN
+    DELETE FROM analysis_fts WHERE id = old.id;
+    INSERT INTO analysis_fts (id, title, content) VALUES (new.id, new.title, new.content);
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS analysis_fts_delete AFTER DELETE ON Analysis BEGIN
+    DELETE FROM analysis_fts WHERE id = old.id;
+  END`,
+]
+
+// Tables and triggers the statements above create
+const SEARCH_OBJECTS = SCHEMA.map(statement => statement.match(/IF NOT EXISTS (\w+)/)![1])
+
+// Copies rows the index is missing, e.g. written before it existed
+const BACKFILL = [
+  `INSERT INTO news_fts (id, title, summary) SELECT id, title, coalesce(summary, '') FROM CryptoNews
+    WHERE id NOT IN (SELECT id FROM news_fts)`,
+  `INSERT INTO analysis_fts (id, title, content) SELECT id, title, content FROM Analysis
+    WHERE id NOT IN (SELECT id FROM analysis_fts)`,
+]
+
+// Create whatever part of the index is missing. Checked on every call rather
+// than cached, so a running server recovers after the schema is pushed.
+export async function ensureSearchIndex() {
+  const existing = await db.$queryRawUnsafe<Array<{ name: string }>>(
+    `SELECT name FROM sqlite_master WHERE name IN (${SEARCH_OBJECTS.map(() => '?').join(', ')})`,
+    ...SEARCH_OBJECTS
+  )
+  if (existing.length === SEARCH_OBJECTS.length) return
+
+  await db.$transaction(async tx => {
+    for (const statement of [...SCHEMA, ...BACKFILL]) {
+      await tx.$executeRawUnsafe(statement)
+    }
+  })
+}
+
+// User input as an FTS5 query: every word must match, the last as a prefix
+// so results follow typing. Quoting keeps FTS syntax characters literal.
+export function toMatchQuery(input: string): string | null {
+  const terms = input.split(/\s+/).map(t => t.replace(/"/g, '')).filter(Boolean)
+  if (terms.length === 0) return null
+  return terms.map((term, i) => `"${term}"${i === terms.length - 1 ? '*' : ''}`).join(' ')
+}
+
+// Matches are read and filtered a page at a time until enough survive
+const MATCH_PAGE = 200
+const SNIPPET_TOKENS = 24
+
+// Control characters mark matches so the surrounding text can be escaped
+const MARK_OPEN = '\u0002'
+const MARK_CLOSE = '\u0003'
+
+function toHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(new RegExp(MARK_OPEN, 'g'), '<mark>')
+    .replace(new RegExp(MARK_CLOSE, 'g'), '</mark>')
+}
+
+interface MatchRow {
+  id: string
+  titleHighlight: string
+  snippet: string
+  rank: number
+}
+
+// Ranked by BM25 with title matches weighted over body matches
+async function matchNews(query: string, offset: number): Promise<MatchRow[]> {
+  return db.$queryRaw<MatchRow[]>`
+    SELECT id,
+      highlight(news_fts, 1, ${MARK_OPEN}, ${MARK_CLOSE}) AS titleHighlight,
+      snippet(news_fts, 2, ${MARK_OPEN}, ${MARK_CLOSE}, '…', ${SNIPPET_TOKENS}) AS snippet,
+      bm25(news_fts, 0.0, 4.0, 1.0) AS rank
+    FROM news_fts WHERE news_fts MATCH ${query}
+    ORDER BY rank LIMIT ${MATCH_PAGE} OFFSET ${offset}`
+}
+
+async function matchAnalysis(query: string, offset: number): Promise<MatchRow[]> {
+  return db.$queryRaw<MatchRow[]>`
+    SELECT id,
+      highlight(analysis_fts, 1, ${MARK_OPEN}, ${MARK_CLOSE}) AS titleHighlight,
+      snippet(analysis_fts, 2, ${MARK_OPEN}, ${MARK_CLOSE}, '…', ${SNIPPET_TOKENS}) AS snippet,
+      bm25(analysis_fts, 0.0, 4.0, 1.0) AS rank
+    FROM analysis_fts WHERE analysis_fts MATCH ${query}
+    ORDER BY rank LIMIT ${MATCH_PAGE} OFFSET ${offset}`
+}
+
+// The best `limit` matches whose rows pass `load`'s filters, in rank order
+async function filterMatches<T extends { id: string }>(
+  page: (offset: number) => Promise<MatchRow[]>,
+  load: (ids: string[]) => Promise<T[]>,
+  limit: number
+): Promise<Array<[T, MatchRow]>> {
+  const found: Array<[T, MatchRow]> = []
+  for (let offset = 0; found.length < limit; offset += MATCH_PAGE) {
+    const matches = await page(offset)
+    const rows = new Map((await load(matches.map(m => m.id))).map(row => [row.id, row]))
+    for (const match of matches) {
+      const row = rows.get(match.id)
+      if (row) found.push([row, match])
+    }
+    if (matches.length < MATCH_PAGE) break
+  }
+  return found.slice(0, limit)
+}
+
+// Search news and analysis, best matches first
+export async function search(options: SearchOptions): Promise<SearchHit[]> {
+  const query = toMatchQuery(options.q)
+  if (!query) return []
+  await ensureSearchIndex()
+
+  const limit = options.limit ?? 20
+  const dateRange = options.from || options.to ? { gte: options.from, lte: options.to } : undefined
+  // Assets tagged on the row, not only the one in Analysis.symbol
+  const symbols = options.symbol ? { some: { symbol: options.symbol.toUpperCase() } } : undefined
+  const hits: SearchHit[] = []
+
+  if (!options.type || options.type === 'news') {
+    const matches = await filterMatches(
+      offset => matchNews(query, offset),
+      ids => db.cryptoNews.findMany({
+        where: { id: { in: ids }, publishedAt: dateRange, symbols },
+        include: { symbols: { orderBy: { mentions: 'desc' }, take: 1 } },
+      }),
+      limit
+    )
+    for (const [row, match] of matches) {
+      hits.push({
+        id: row.id,
+        type: 'news',
+        title: row.title,
+        titleHighlight: toHtml(match.titleHighlight),
+        snippet: toHtml(match.snippet || row.summary || ''),
+        url: row.url,
+        source: row.source,
+        symbol: row.symbols[0]?.symbol ?? null,
+        sentiment: row.sentiment,
+        date: row.publishedAt.toISOString(),
+        score: -match.rank,
+      })
+    }
+  }
+
+  if (options.type !== 'news') {
+    const matches = await filterMatches(
+      offset => matchAnalysis(query, offset),
+      ids => db.analysis.findMany({
+        where: { id: { in: ids }, type: options.type, symbols, createdAt: dateRange },
+      }),
+      limit
+    )
+    for (const [row, match] of matches) {
+      hits.push({
+        id: row.id,
+        type: row.type === 'prediction' ? 'prediction' : 'analysis',
+        title: row.title,
+        titleHighlight: toHtml(match.titleHighlight),
+        snippet: toHtml(match.snippet),
+        url: null,
+        source: row.source,
+        symbol: row.symbol,
+        sentiment: row.sentiment,
+        date: row.createdAt.toISOString(),
+        score: -match.rank,
+      })
+    }
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit)
+}
@@ -0,0 +1,114 @@
+// Sentiment index
+// Hourly and daily sentiment per asset from the scored news and analysis that
+// mention it. A news story (one NewsCluster) counts once at its first
+// article's time, weighted by how many sources carried it; analysis rows
+// count once each. The recent window is rebuilt on every refresh, since late
+// articles still join clusters and change their weight.
+
+import type { SentimentIndex } from '@prisma/client'
+import { db } from '@/lib/db'
+import { alignToInterval, INTERVAL_MS } from '@/lib/candles'
+
+export const SENTIMENT_INTERVALS = ['1h', '1d'] as const
+export type SentimentInterval = typeof SENTIMENT_INTERVALS[number]
+
+// Buckets older than this no longer change
+const REBUILD_WINDOW_MS = 7 * INTERVAL_MS['1d']
+
+interface ScoredItem {
+  symbols: string[]
+  time: Date
+  score: number
+  confidence: number
+  weight: number
+}
+
+type SentimentPoint = Pick<SentimentIndex, 'symbol' | 'timestamp' | 'score' | 'confidence' | 'items' | 'sources'>
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+// Scored stories and analysis rows published since `since`
+async function loadScoredItems(since: Date): Promise<ScoredItem[]> {
+  const [articles, analysis] = await Promise.all([
+    db.cryptoNews.findMany({
+      where: { publishedAt: { gte: since }, sentimentScore: { not: null } },
+      include: { symbols: true },
+    }),
+    db.analysis.findMany({
+      where: { createdAt: { gte: since }, sentimentScore: { not: null } },
+      include: { symbols: true },
+    }),
+  ])
+
+  const stories = new Map<string, typeof articles>()
+  for (const article of articles) {
+    const key = article.clusterId ?? article.id
+    stories.set(key, [...(stories.get(key) ?? []), article])
+  }
+
+  const items: ScoredItem[] = Array.from(stories.values()).map(story => ({
+    symbols: Array.from(new Set(story.flatMap(a => a.symbols.map(s => s.symbol)))),
+    time: new Date(Math.min(...story.map(a => a.publishedAt.getTime()))),
+    score: mean(story.map(a => a.sentimentScore!)),
+    confidence: mean(story.map(a => a.sentimentConfidence ?? 0)),
+    // Articles without a source each count as their own
+    weight: new Set(story.map(a => a.source ?? a.id)).size,
+  }))
+  for (const row of analysis) {
+    items.push({
+      symbols: row.symbols.map(s => s.symbol),
+      time: row.createdAt,
+      score: row.sentimentScore!,
+      confidence: row.sentimentConfidence ?? 0,
+      weight: 1,
+    })
+  }
+  return items.filter(item => item.symbols.length > 0)
+}
+
+// Weighted mean score per symbol and bucket
+function aggregateSentiment(items: ScoredItem[], interval: SentimentInterval): SentimentPoint[] {
+  const buckets = new Map<string, SentimentPoint>()
+  for (const item of items) {
+    const timestamp = alignToInterval(item.time, interval)
+    for (const symbol of item.symbols) {
+      const key = `${symbol}|${timestamp.getTime()}`
+      const bucket = buckets.get(key) ?? { symbol, timestamp, score: 0, confidence: 0, items: 0, sources: 0 }
+      // Running sums; divided by the weight below
+      bucket.score += item.score * item.weight
+      bucket.confidence += item.confidence * item.weight
+      bucket.items++
+      bucket.sources += item.weight
+      buckets.set(key, bucket)
+    }
+  }
+  return Array.from(buckets.values()).map(b => ({
+    ...b,
+    score: Math.round((b.score / b.sources) * 1000) / 1000,
+    confidence: Math.round((b.confidence / b.sources) * 100) / 100,
+  }))
+}
+
+// Recompute every bucket in the recent window; returns the rows written
+export async function rebuildSentimentIndex(now = new Date()): Promise<number> {
+  const since = alignToInterval(now.getTime() - REBUILD_WINDOW_MS, '1d')
+  const items = await loadScoredItems(since)
+  const rows = SENTIMENT_INTERVALS.flatMap(interval =>
+    aggregateSentiment(items, interval).map(point => ({ ...point, interval }))
+  )
+
+  await db.$transaction([
+    db.sentimentIndex.deleteMany({ where: { timestamp: { gte: since } } }),
+    db.sentimentIndex.createMany({ data: rows }),
+  ])
+  return rows.length
+}
+
+export async function getSentimentHistory(symbol: string, interval: SentimentInterval, from: Date, to: Date): Promise<SentimentIndex[]> {
+  return db.sentimentIndex.findMany({
+    where: { symbol, interval, timestamp: { gte: from, lte: to } },
+    orderBy: { timestamp: 'asc' },
+  })
+}
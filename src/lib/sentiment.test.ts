@@ -0,0 +1,44 @@
+/// <reference types="bun-types" />
+
+import { describe, expect, test } from 'bun:test'
+import corpus from '../../fixtures/sentiment/corpus.json'
+import { NEUTRAL_BAND, scoreSentiment, type SentimentLabel } from '@/lib/sentiment'
+
+describe('scoreSentiment', () => {
+  test.each(corpus.map(entry => [entry.text, entry.label as SentimentLabel] as const))('%s is %s', (text, label) => {
+    const { label: actual, score, confidence } = scoreSentiment(text)
+    expect(actual).toBe(label)
+    if (label === 'bullish') expect(score).toBeGreaterThan(0)
+    if (label === 'bearish') expect(score).toBeLessThan(0)
+    if (label === 'neutral') expect(Math.abs(score)).toBeLessThan(NEUTRAL_BAND)
+    expect(Math.abs(score)).toBeLessThanOrEqual(1)
+    expect(confidence).toBeGreaterThanOrEqual(0)
+    expect(confidence).toBeLessThanOrEqual(1)
+  })
+
+  test('text without lexicon terms is neutral with no confidence', () => {
+    expect(scoreSentiment('Exchange publishes proof of reserves')).toEqual({ label: 'neutral', score: 0, confidence: 0 })
+  })
+
+  test('a decimal point does not end the negation scope', () => {
+    expect(scoreSentiment('Not a 2.5% drop').score).toBeGreaterThan(0)
+  })
+
+  test('negation flips at reduced strength', () => {
+    const asserted = scoreSentiment('Bitcoin is bullish').score
+    const negated = scoreSentiment('Bitcoin is not bullish').score
+    expect(negated).toBeLessThan(0)
+    expect(Math.abs(negated)).toBeLessThan(asserted)
+  })
+
+  test('intensifiers and diminishers scale the neighbouring term', () => {
+    const plain = scoreSentiment('Gold rose').score
+    expect(scoreSentiment('Gold rose sharply').score).toBeGreaterThan(plain)
+    expect(scoreSentiment('Gold rose slightly').score).toBeLessThan(plain)
+  })
+
+  test('agreeing evidence raises confidence', () => {
+    expect(scoreSentiment('Bitcoin surges in a bullish rally').confidence)
+      .toBeGreaterThan(scoreSentiment('Bitcoin rose').confidence)
+  })
+})
@@ -0,0 +1,168 @@
+// Lexicon sentiment for news and analysis
+// Each finance term carries a weight; negators ("not", "fails to") flip the
+// terms that follow, intensifiers ("sharply") and diminishers ("slightly")
+// scale their neighbours, and "but" shifts weight to the clause after it. The
+// summed weight is squashed into a score in [-1, 1], and the confidence says
+// how much agreeing evidence the text held.
+// fixtures/sentiment/corpus.json holds the labelled headlines sentiment.test.ts
+// checks the lexicon against.
+
+export const SENTIMENT_LABELS = ['bullish', 'bearish', 'neutral'] as const
+export type SentimentLabel = typeof SENTIMENT_LABELS[number]
+
+export interface Sentiment {
+  label: SentimentLabel
+  // -1 (bearish) to 1 (bullish)
+  score: number
+  // 0 (no evidence) to 1 (plenty of agreeing evidence)
+  confidence: number
+}
+
+// Base forms; plurals and -ed/-ing forms are matched by lemmaWeight()
+const LEXICON = new Map<string, number>(Object.entries({
+  // Bullish
+  'up': 1, 'high': 1, 'new high': 2,
+  'bullish': 2.5, 'bull': 1.5, 'bull market': 2, 'rally': 2, 'surge': 2.5, 'soar': 2.5,
+  'skyrocket': 3, 'moon': 1.5, 'jump': 1.5, 'climb': 1.2, 'rise': 1, 'rose': 1, 'risen': 1,
+  'gain': 1.2, 'higher': 1, 'advance': 1, 'rebound': 2, 'recover': 2, 'recovery': 2,
+  'boost': 1.5, 'all-time high': 2.5, 'record high': 2, 'breakout': 1.5, 'uptrend': 1.5,
+  'upside': 1.2, 'outperform': 1.5, 'beat': 1.2, 'upgrade': 1.5, 'optimism': 1.5,
+  'optimistic': 1.5, 'positive': 1.5, 'strong': 1, 'strength': 1, 'robust': 1.2,
+  'growth': 1, 'profit': 1.2, 'profitable': 1.2, 'inflow': 1.5, 'adoption': 1.2,
+  'approval': 1.5, 'approve': 1.5, 'accumulation': 1, 'accumulate': 1, 'golden cross': 2.5,
+  'short squeeze': 1,
+  // Bearish
+  'down': -1, 'low': -1, 'new low': -2,
+  'bearish': -2.5, 'bear': -1.5, 'bear market': -2, 'crash': -3, 'plunge': -2.5,
+  'plummet': -3, 'tumble': -2, 'slump': -2, 'sink': -1.5, 'sank': -1.5, 'sunk': -1.5,
+  'slide': -1.2, 'slip': -1, 'drop': -1.5, 'fall': -1.2, 'fell': -1.2, 'fallen': -1.2,
+  'decline': -1.5, 'lower': -1, 'loss': -1.5, 'lose': -1.2, 'lost': -1.2, 'dump': -2,
+  'selloff': -2, 'sell-off': -2, 'liquidation': -1.5, 'liquidate': -1.5, 'outflow': -1.5,
+  'downgrade': -1.5, 'underperform': -1.5, 'miss': -1.2, 'weak': -1, 'weaken': -1.2, 'weakness': -1,
+  'downturn': -2, 'downtrend': -1.5, 'downside': -1.2, 'recession': -2, 'fear': -1.5,
+  'panic': -2.5, 'concern': -1, 'worry': -1.2, 'risk': -0.7, 'risky': -1, 'volatile': -0.5,
+  'volatility': -0.5, 'uncertainty': -1, 'hack': -2.5, 'exploit': -2, 'fraud': -3,
+  'scam': -3, 'lawsuit': -1.5, 'sue': -1.5, 'ban': -2, 'crackdown': -2, 'investigation': -1,
+  'default': -2, 'bankruptcy': -3, 'bankrupt': -3, 'insolvent': -3, 'collapse': -3,
+  'negative': -1.5, 'pessimism': -1.5, 'pessimistic': -1.5, 'capitulation': -2,
+  'death cross': -2.5,
+}))
+
+// Words that flip the sentiment of the next few words
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'none', 'nor', 'neither', 'cannot', 'without', 'hardly', 'barely',
+  'fail', 'fails', 'failed', 'failing',
+])
+const NEGATION_SCOPE = 3
+// Negated terms count less than asserted ones: "not bullish" is not "bearish"
+const NEGATION_FACTOR = -0.75
+
+// Multipliers for the word right before or after a term
+const MODIFIERS = new Map<string, number>(Object.entries({
+  'very': 1.3, 'extremely': 1.5, 'sharply': 1.5, 'strongly': 1.3, 'significantly': 1.3,
+  'massively': 1.5, 'massive': 1.4, 'huge': 1.3, 'major': 1.2, 'big': 1.2, 'steep': 1.4,
+  'steeply': 1.4, 'dramatically': 1.5, 'heavily': 1.3,
+  'slightly': 0.5, 'modestly': 0.6, 'marginally': 0.5, 'somewhat': 0.7, 'mildly': 0.6,
+  'minor': 0.6, 'small': 0.7,
+}))
+
+// Terms after these words outweigh the ones before them
+const CONTRASTS = new Set(['but', 'however', 'yet'])
+const BEFORE_CONTRAST = 0.5
+const AFTER_CONTRAST = 1.5
+
+// Larger values need more evidence to approach ±1
+const SCORE_ALPHA = 15
+// Summed term weight at which confidence reaches ~63%
+const CONFIDENCE_SCALE = 4
+// Scores closer to zero than this are neutral
+export const NEUTRAL_BAND = 0.1
+
+// Sentence ends; a point inside a number ("3.5%") is not one
+const SENTENCE_END = /[.!?;]+(?=\s|$)/
+
+function tokenize(sentence: string): string[] {
+  return sentence.toLowerCase().replace(/’/g, '\'').match(/[a-z]+(?:['-][a-z]+)*/g) ?? []
+}
+
+function isNegator(token: string): boolean {
+  return NEGATORS.has(token) || token.endsWith('n\'t')
+}
+
+// Lexicon weight of `word` or of its base form ("surged", "rallies", "slipping")
+function lemmaWeight(word: string): number | undefined {
+  if (LEXICON.has(word)) return LEXICON.get(word)
+  const stems = [
+    word.replace(/ies$|ied$/, 'y'),
+    word.replace(/es$/, ''),
+    word.replace(/s$/, ''),
+    word.replace(/ed$/, ''),
+    word.replace(/d$/, ''),
+    word.replace(/ing$/, ''),
+    word.replace(/ing$/, 'e'),
+  ]
+  for (const stem of stems) {
+    if (stem === word) continue
+    if (LEXICON.has(stem)) return LEXICON.get(stem)
+    // "slipped", "banned"
+    if (/(.)\1$/.test(stem) && LEXICON.has(stem.slice(0, -1))) return LEXICON.get(stem.slice(0, -1))
+  }
+  return undefined
+}
+
+// Weighted terms of one sentence
+function sentenceWeights(tokens: string[]): number[] {
+  const contrastAt = tokens.reduce((last, t, i) => (CONTRASTS.has(t) ? i : last), -1)
+  const weights: number[] = []
+  let negatedUntil = -1
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (isNegator(tokens[i])) {
+      negatedUntil = i + NEGATION_SCOPE
+      continue
+    }
+
+    // Two-word phrases first, so "bear market" is one term
+    const phrase = i + 1 < tokens.length ? `${tokens[i]} ${tokens[i + 1]}` : ''
+    let end = i
+    let weight = LEXICON.get(phrase)
+    if (weight !== undefined) {
+      end = i + 1
+    } else {
+      weight = lemmaWeight(tokens[i])
+    }
+    if (weight === undefined) continue
+
+    weight *= (MODIFIERS.get(tokens[i - 1]) ?? 1) * (MODIFIERS.get(tokens[end + 1]) ?? 1)
+    if (i <= negatedUntil) weight *= NEGATION_FACTOR
+    if (contrastAt >= 0) weight *= i < contrastAt ? BEFORE_CONTRAST : AFTER_CONTRAST
+    weights.push(weight)
+    i = end
+  }
+  return weights
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+// Sentiment of a headline, summary or article body
+export function scoreSentiment(text: string): Sentiment {
+  const weights = text.split(SENTENCE_END).flatMap(sentence => sentenceWeights(tokenize(sentence)))
+  const positive = weights.filter(w => w > 0).reduce((sum, w) => sum + w, 0)
+  const negative = -weights.filter(w => w < 0).reduce((sum, w) => sum + w, 0)
+  const total = positive + negative
+  if (total === 0) return { label: 'neutral', score: 0, confidence: 0 }
+
+  const net = positive - negative
+  const score = net / Math.sqrt(net * net + SCORE_ALPHA)
+  const agreement = Math.abs(net) / total
+  const evidence = 1 - Math.exp(-total / CONFIDENCE_SCALE)
+
+  return {
+    label: score >= NEUTRAL_BAND ? 'bullish' : score <= -NEUTRAL_BAND ? 'bearish' : 'neutral',
+    score: round(score, 3),
+    confidence: round(agreement * evidence, 2),
+  }
+}
@@ -0,0 +1,91 @@
+// Stream event log
+// Writers append an event for each change they make; /api/stream tails the
+// log and clients resume from the last event id they saw. Only a short
+// window is kept.
+
+import type { Analysis, CryptoNews, StreamEvent } from '@prisma/client'
+import { db } from '@/lib/db'
+
+export const STREAM_EVENT_TYPES = ['price', 'news', 'analysis', 'refresh-status'] as const
+export type StreamEventType = typeof STREAM_EVENT_TYPES[number]
+
+// How long events stay replayable
+const RETENTION_MS = 24 * 60 * 60 * 1000
+
+// Append events; failures are logged so they never break the write path
+export async function publishStreamEvents(events: Array<{ type: StreamEventType; data: unknown }>): Promise<void> {
+  if (events.length === 0) return
+  try {
+    await db.streamEvent.createMany({
+      data: events.map(e => ({ type: e.type, data: JSON.stringify(e.data) })),
+    })
+  } catch (error) {
+    console.error('Error publishing stream events:', error)
+  }
+}
+
+export async function publishStreamEvent(type: StreamEventType, data: unknown): Promise<void> {
+  return publishStreamEvents([{ type, data }])
+}
+
+// Payloads for rows written by the news and analysis pipelines
+export function newsEvent(news: CryptoNews) {
+  return {
+    type: 'news' as const,
+    data: {
+      id: news.id,
+      title: news.title,
+      summary: news.summary,
+      source: news.source,
+      url: news.url,
+      category: news.category,
+      publishedAt: news.publishedAt.toISOString(),
+      sentiment: news.sentiment,
+      sentimentScore: news.sentimentScore,
+      sentimentConfidence: news.sentimentConfidence,
+    },
+  }
+}
+
+export function analysisEvent(analysis: Analysis) {
+  return {
+    type: 'analysis' as const,
+    data: {
+      id: analysis.id,
+      symbol: analysis.symbol,
+      type: analysis.type,
+      title: analysis.title,
+      content: analysis.content,
+      sentiment: analysis.sentiment,
+      sentimentScore: analysis.sentimentScore,
+      sentimentConfidence: analysis.sentimentConfidence,
+      createdAt: analysis.createdAt.toISOString(),
+    },
+  }
+}
+
+// Events after `afterId`, oldest first
+export async function getStreamEventsAfter(
+  afterId: number,
+  types: readonly StreamEventType[] = STREAM_EVENT_TYPES,
+  limit = 500
+): Promise<StreamEvent[]> {
+  return db.streamEvent.findMany({
+    where: { id: { gt: afterId }, type: { in: [...types] } },
+    orderBy: { id: 'asc' },
+    take: limit,
+  })
+}
+
+export async function getLatestStreamEventId(): Promise<number> {
+  const latest = await db.streamEvent.findFirst({ orderBy: { id: 'desc' } })
+  return latest?.id ?? 0
+}
+
+// Drop events older than the retention window
+export async function pruneStreamEvents(): Promise<number> {
+  const { count } = await db.streamEvent.deleteMany({
+    where: { createdAt: { lt: new Date(Date.now() - RETENTION_MS) } },
+  })
+  return count
+}
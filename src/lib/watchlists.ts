@@ -0,0 +1,83 @@
+// Watchlist helpers
+// Watchlists hold provider tickers; registered instruments keep their display
+// symbol and formatting, anything else is shown under its raw ticker.
+
+import { db } from '@/lib/db'
+import { getSnapshots } from '@/lib/finance-api'
+import { getInstruments, getInstrument, byProviderTicker } from '@/lib/instruments'
+import { inferAssetClass } from '@/lib/providers'
+
+export const watchlistInclude = {
+  items: { orderBy: { sortOrder: 'asc' as const } },
+}
+
+// Normalise user input to a provider ticker; registered display symbols
+// such as "BTC" resolve to their upstream ticker
+export async function resolveTicker(input: string): Promise<string> {
+  const value = input.trim().toUpperCase()
+  const instrument = await getInstrument(value)
+  return instrument?.providerTicker || value
+}
+
+// A ticker is supported if it is registered or the provider can quote it
+export async function isSupportedTicker(ticker: string): Promise<boolean> {
+  const instrument = await getInstrument(ticker)
+  if (instrument) return true
+  const quotes = await getSnapshots([ticker])
+  return quotes.some(q => q.ticker === ticker && q.price > 0)
+}
+
+// Quote every ticker in a watchlist, in watchlist order, in the same shape
+// as /api/market/prices so the dashboard can reuse its market cards
+export async function getWatchlistPrices(tickers: string[]) {
+  if (tickers.length === 0) return []
+
+  const instruments = byProviderTicker(await getInstruments({ includeDisabled: true }))
+  const quotes = new Map((await getSnapshots(tickers)).map(q => [q.ticker, q]))
+
+  // Fall back to cached prices for registered instruments the provider missed
+  const missing = tickers.filter(t => !quotes.has(t) && instruments.has(t))
+  const cached = new Map(
+    (await db.marketPrice.findMany({
+      where: { symbol: { in: missing.map(t => instruments.get(t)!.symbol) } },
+    })).map(p => [p.symbol, p])
+  )
+
+  return tickers.flatMap(ticker => {
+    const instrument = instruments.get(ticker)
+    const format = {
+      assetClass: instrument?.assetClass || inferAssetClass(ticker),
+      quoteCurrency: instrument?.quoteCurrency || 'USD',
+      decimals: instrument?.decimals ?? 2,
+    }
+
+    const quote = quotes.get(ticker)
+    if (quote) {
+      return [{
+        symbol: instrument?.symbol || ticker,
+        name: instrument?.name || quote.name || ticker,
+        price: quote.price,
+        change24h: quote.changePercent,
+        high24h: quote.high,
+        low24h: quote.low,
+        volume: quote.volume,
+        ...format,
+      }]
+    }
+
+    const cachedPrice = instrument && cached.get(instrument.symbol)
+    if (cachedPrice) {
+      return [{
+        symbol: cachedPrice.symbol,
+        name: cachedPrice.name,
+        price: cachedPrice.price,
+        change24h: cachedPrice.change24h,
+        high24h: cachedPrice.high24h,
+        low24h: cachedPrice.low24h,
+        volume: cachedPrice.volume,
+        ...format,
+      }]
+    }
+    return []
+  })
+}
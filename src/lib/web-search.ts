@@ -1,5 +1,8 @@
 // Web search utility for fetching cryptocurrency news and analysis
 import ZAI from 'z-ai-web-dev-sdk';
+import { upstream, CircuitOpenError } from '@/lib/http-client';
+import { cached } from '@/lib/cache';
+import { canonicalizeUrl } from '@/lib/news-dedup';
 
 export interface SearchResult {
   url: string;
@@ -20,16 +23,24 @@ async function getZAI() {
   return zaiInstance;
 }
 
-// Search the web for information
+// Search results are cached for 10 minutes and served stale for an hour more
+const SEARCH_CACHE_POLICY = { ttlMs: 10 * 60 * 1000, staleMs: 60 * 60 * 1000 };
+
+// Search the web for information. A failed query yields the last cached
+// results or none, but an open circuit with nothing cached is rethrown so
+// callers serve their stored items instead.
 export async function searchWeb(query: string, num: number = 10): Promise<SearchResult[]> {
   try {
-    const zai = await getZAI();
-    const results = await zai.functions.invoke('web_search', {
-      query,
-      num,
+    return await cached(`search:${query}:${num}`, SEARCH_CACHE_POLICY, async () => {
+      const zai = await getZAI();
+      const results = await upstream('search').call(() => zai.functions.invoke('web_search', {
+        query,
+        num,
+      }));
+      return (results || []) as SearchResult[];
     });
-    return results || [];
   } catch (error) {
+    if (error instanceof CircuitOpenError) throw error;
     console.error('Error searching web:', error);
     return [];
   }
@@ -50,13 +61,15 @@ export async function searchCryptoNews(num: number = 15): Promise<SearchResult[]
     allResults.push(...results);
   }
 
-  // Deduplicate by URL
+  // Deduplicate by canonical URL; near-duplicate stories are clustered on storage
   const seen = new Set<string>();
-  const unique = allResults.filter(item => {
-    if (seen.has(item.url)) return false;
-    seen.add(item.url);
-    return true;
-  });
+  const unique = allResults
+    .map(item => ({ ...item, url: canonicalizeUrl(item.url) }))
+    .filter(item => {
+      if (seen.has(item.url)) return false;
+      seen.add(item.url);
+      return true;
+    });
 
   // Sort by date (most recent first)
   return unique
@@ -79,13 +92,15 @@ export async function searchCryptoPredictions(num: number = 10): Promise<SearchR
     allResults.push(...results);
   }
 
-  // Deduplicate by URL
+  // Deduplicate by canonical URL; near-duplicate stories are clustered on storage
   const seen = new Set<string>();
-  const unique = allResults.filter(item => {
-    if (seen.has(item.url)) return false;
-    seen.add(item.url);
-    return true;
-  });
+  const unique = allResults
+    .map(item => ({ ...item, url: canonicalizeUrl(item.url) }))
+    .filter(item => {
+      if (seen.has(item.url)) return false;
+      seen.add(item.url);
+      return true;
+    });
 
   return unique.slice(0, num);
 }
@@ -99,8 +114,3 @@ export async function searchMarketAnalysis(num: number = 10): Promise<SearchResu
 export async function searchSpecificCrypto(coin: string, num: number = 10): Promise<SearchResult[]> {
   return searchWeb(`${coin} cryptocurrency news analysis`, num);
 }
-
-// USD/KZT exchange rate search
-export async function searchUSDKZTRate(): Promise<SearchResult[]> {
-  return searchWeb('USD KZT exchange rate today Kazakhstan tenge', 5);
-}